@@ -1,6 +1,18 @@
+export * from './structures/GatewayAdapter'
+export * from './structures/HTTPError'
 export * from './structures/LavalinkManager'
+export * from './structures/Metrics'
 export * from './structures/Node'
 export * from './structures/Player'
+export * from './structures/Recorder'
+export * from './structures/SearchCache'
+export * from './structures/SourceResolver'
+export * from './structures/SpotifyResolver'
 export * from './structures/Track'
+export * from './structures/TrackMatcher'
+
+export * from './testing/MockLavalinkServer'
+export * from './testing/MockWorker'
+export * from './testing/Replayer'
 
 export * from './typings/Lavalink'
@@ -0,0 +1,129 @@
+import { APIRole, ChannelType, GatewayVoiceServerUpdateDispatchData, GatewayVoiceState } from 'discord-api-types'
+import Collection from '@discordjs/collection'
+import { PermissionsUtils, Snowflake, Worker } from 'discord-rose'
+
+/**
+ * Voice state data to send to the gateway with op 4.
+ */
+export interface VoiceStateUpdateData {
+  guild_id: Snowflake
+  channel_id: Snowflake | null
+  self_mute: boolean
+  self_deaf: boolean
+}
+
+/**
+ * Data to modify the bot's voice state in a stage channel with.
+ */
+export interface CurrentUserVoiceStateData {
+  channel_id: Snowflake
+  suppress?: boolean
+  request_to_speak_timestamp?: string | null
+}
+
+/**
+ * An adapter between the lavalink manager and a discord library or gateway connection.
+ * Implement this to use the manager with libraries other than discord-rose.
+ */
+export interface GatewayAdapter {
+  /**
+   * The bot's user ID.
+   */
+  readonly userId: Snowflake
+  /**
+   * Send a voice state update (op 4) to the gateway shard responsible for a guild.
+   * @param data The voice state data.
+   */
+  sendVoiceStateUpdate: (data: VoiceStateUpdateData) => Promise<void>
+  /**
+   * Get the gateway session ID of the shard responsible for a guild.
+   * @param guildId The guild's ID.
+   * @returns The session ID, or null if the shard is not connected.
+   */
+  getSessionId: (guildId: Snowflake) => string | null
+  /**
+   * Register a listener for raw VOICE_STATE_UPDATE dispatches.
+   * @param listener The listener.
+   */
+  onVoiceStateUpdate: (listener: (data: GatewayVoiceState) => void) => void
+  /**
+   * Register a listener for raw VOICE_SERVER_UPDATE dispatches.
+   * @param listener The listener.
+   */
+  onVoiceServerUpdate: (listener: (data: GatewayVoiceServerUpdateDispatchData) => void) => void
+  /**
+   * Get a channel's type.
+   * @param channelId The channel's ID.
+   * @returns The channel's type.
+   */
+  getChannelType: (channelId: Snowflake) => Promise<ChannelType>
+  /**
+   * Get the bot's stage permissions in a channel.
+   * @param guildId The guild's ID.
+   * @param channelId The channel's ID.
+   * @returns If the bot can become a speaker, and if it can request to speak.
+   */
+  getStagePermissions: (guildId: Snowflake, channelId: Snowflake) => Promise<{ becomeSpeaker: boolean, request: boolean }>
+  /**
+   * Modify the bot's voice state in a stage channel.
+   * @param guildId The guild's ID.
+   * @param data The data to modify the voice state with.
+   */
+  modifyCurrentUserVoiceState: (guildId: Snowflake, data: CurrentUserVoiceStateData) => Promise<void>
+}
+
+/**
+ * The default gateway adapter, using a discord-rose worker.
+ */
+export class DiscordRoseAdapter implements GatewayAdapter {
+  /**
+   * Create a discord-rose adapter.
+   * @param worker The worker to use.
+   */
+  constructor (public readonly worker: Worker) {}
+
+  public get userId (): Snowflake {
+    return this.worker.user.id
+  }
+
+  public async sendVoiceStateUpdate (data: VoiceStateUpdateData): Promise<void> {
+    // @ts-expect-error Property 'ws' is private and only accessible within class 'Shard'.
+    await this.worker.guildShard(data.guild_id).ws._send({ op: 4, d: data })
+  }
+
+  public getSessionId (guildId: Snowflake): string | null {
+    // @ts-expect-error Property 'ws' is private and only accessible within class 'Shard'.
+    return this.worker.guildShard(guildId).ws.sessionID ?? null
+  }
+
+  public onVoiceStateUpdate (listener: (data: GatewayVoiceState) => void): void {
+    this.worker.on('VOICE_STATE_UPDATE', listener)
+  }
+
+  public onVoiceServerUpdate (listener: (data: GatewayVoiceServerUpdateDispatchData) => void): void {
+    this.worker.on('VOICE_SERVER_UPDATE', listener)
+  }
+
+  public async getChannelType (channelId: Snowflake): Promise<ChannelType> {
+    return (await this.worker.api.channels.get(channelId)).type
+  }
+
+  public async getStagePermissions (guildId: Snowflake, channelId: Snowflake): Promise<{ becomeSpeaker: boolean, request: boolean }> {
+    const voiceChannel = await this.worker.api.channels.get(channelId)
+    const guild = await this.worker.api.guilds.get(guildId)
+    const botPerms = PermissionsUtils.combine({
+      guild,
+      member: await this.worker.api.members.get(guild.id, this.userId),
+      overwrites: voiceChannel.permission_overwrites,
+      roleList: guild.roles.reduce<Collection<Snowflake, APIRole>>((p, c) => p.set(c.id, c), new Collection()) as any
+    })
+    return {
+      becomeSpeaker: PermissionsUtils.has(botPerms, 'mute'),
+      request: PermissionsUtils.has(botPerms, 'requestToSpeak' as any)
+    }
+  }
+
+  public async modifyCurrentUserVoiceState (guildId: Snowflake, data: CurrentUserVoiceStateData): Promise<void> {
+    await this.worker.api.request('PATCH', `/guilds/${guildId}/voice-states/@me`, { body: data })
+  }
+}
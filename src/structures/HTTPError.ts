@@ -0,0 +1,18 @@
+import { RequestMethods } from './Node'
+
+/**
+ * An error thrown when a REST request receives an unsuccessful response.
+ */
+export class HTTPError extends Error {
+  /**
+   * Create an HTTP error.
+   * @param method The request's method.
+   * @param route The request's route.
+   * @param status The response's status code.
+   * @param body The response's body. This is parsed as JSON if the server responded with JSON, otherwise it is text.
+   */
+  constructor (public readonly method: RequestMethods, public readonly route: string, public readonly status: number, public readonly body: any) {
+    super(`${status} ${method} ${route}${typeof body?.message === 'string' ? `: ${body.message as string}` : typeof body === 'string' && body.length ? `: ${body}` : ''}`)
+    this.name = 'HTTPError'
+  }
+}
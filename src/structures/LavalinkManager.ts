@@ -1,15 +1,22 @@
 import { Node, Player, Track, TrackPartial } from '../typings/lib'
-import { Node as NodeClass, NodeOptions, NodeState, RequestOptions } from './Node'
-import { Player as PlayerClass, PlayerOptions } from './Player'
-import { Track as TrackClass, TrackPartial as TrackPartialClass } from './Track'
-
-import { TrackData } from '../typings/Lavalink'
+import { DiscordRoseAdapter, GatewayAdapter } from './GatewayAdapter'
+import { Metrics, MetricsOptions } from './Metrics'
+import { Recorder } from './Recorder'
+import { SearchCache, SearchCacheOptions } from './SearchCache'
+import { SourceResolver } from './SourceResolver'
+import { SpotifyResolver } from './SpotifyResolver'
+import { Node as NodeClass, NodeFilter, NodeOptions, NodeState, RequestMethods, RequestOptions } from './Node'
+import { Player as PlayerClass, PlayerOptions, PlayerState } from './Player'
+import { Track as TrackClass } from './Track'
+import { TrackMatcher, TrackMatcherOptions, TrackMatchScore } from './TrackMatcher'
+
+import { InboundPayload, LavalinkException, LoadTracksResult, LoadType, OutboundPayload, RoutePlannerFailingAddress, RoutePlannerStatus } from '../typings/Lavalink'
 
 import Constants from '../util/Constants'
 
 import Collection from '@discordjs/collection'
 import { EventEmitter } from '@jpbberry/typed-emitter'
-import fetch, { Headers } from 'node-fetch'
+import { GatewayVoiceServerUpdateDispatchData, GatewayVoiceState } from 'discord-api-types'
 import { Snowflake, Worker } from 'discord-rose'
 
 export interface CompleteLavalinkManagerOptions {
@@ -19,23 +26,72 @@ export interface CompleteLavalinkManagerOptions {
   nodeOptions: NodeOptions[]
   /**
    * An array of enabled sources.
-   * If spotify is specified, the spotifyAuth option should also be defined.
+   * To resolve spotify links, define the spotifyAuth option instead.
    * @default ['youtube', 'soundcloud']
    */
   enabledSources: Source[]
   /**
-   * The default source to use for searches.
+   * The default source to use for searches. This must be a source that supports text searches.
    * @default 'youtube'
    */
   defaultSource: Source
   /**
-   * The type of CPU load to sort by when getting the least load node.
+   * If players should be moved to the least load node when their node is destroyed.
+   * If false, or if there are no other available nodes, the players will be destroyed.
+   * @default true
+   */
+  failover: boolean
+  /**
+   * The strategy to use when sorting nodes by load.
+   * 'system' and 'lavalink' sort by the respective CPU load.
+   * 'penalty' sorts by a penalty score calculated from playing players, CPU load, frame stats and memory usage. See Node#penalty.
+   * 'players' sorts by the number of playing players.
+   * 'roundRobin' cycles through nodes every time a node is picked for a player with LavalinkManager#leastLoadNode().
+   * A function can also be specified to use a custom strategy.
    * @default 'system'
    */
-  leastLoadSort: 'system' | 'lavalink'
+  leastLoadSort: 'system' | 'lavalink' | 'penalty' | 'players' | 'roundRobin' | LoadBalancingStrategy
+  /**
+   * Options for the manager's metrics collector.
+   */
+  metrics: MetricsOptions
+  /**
+   * If debug entries should be emitted with the DEBUG event.
+   * This is implicitly enabled if a logger is specified.
+   * @default false
+   */
+  debug: boolean
+  /**
+   * A logger to pass debug entries to.
+   */
+  logger?: DebugLogger
+  /**
+   * The path of a file to record lavalink traffic and discord voice events to as newline-delimited JSON.
+   * Recordings can be replayed with the Replayer to reproduce issues.
+   */
+  record?: string
+  /**
+   * If discord voice tokens should be written to recordings. Voice tokens are redacted unless this is enabled.
+   * @default false
+   */
+  recordVoiceTokens: boolean
+  /**
+   * Options for caching load results. Results are cached by identifier, which includes the source for searches, and by the nodes allowed to perform the search if a node filter is specified.
+   * Identical concurrent loads are coalesced into a single request. If not specified, results are not cached.
+   */
+  searchCache?: Partial<SearchCacheOptions>
+  /**
+   * Options for scoring search results when resolving track partials. See LavalinkManager#resolveTrack().
+   */
+  trackMatching?: Partial<TrackMatcherOptions>
+  /**
+   * Source resolvers to register on the manager. See LavalinkManager#registerResolver().
+   * @default []
+   */
+  resolvers: SourceResolver[]
   /**
    * Authentication for the spotify API.
-   * This will enable resolving spotify links into youtube tracks.
+   * This will register a SpotifyResolver, enabling resolving spotify links into youtube tracks.
    */
   spotifyAuth?: {
     clientId: string
@@ -45,9 +101,17 @@ export interface CompleteLavalinkManagerOptions {
    * The default request options to use when sending requests to spotify.
    */
   defaultSpotifyRequestOptions?: RequestOptions
+  /**
+   * The market to look up spotify tracks in, as an ISO 3166-1 alpha-2 country code. See SpotifyResolverOptions#market.
+   */
+  spotifyMarket?: string
 }
 
 export interface LavalinkManagerEvents {
+  /**
+   * Emitted when the manager, a node or a player creates a debug entry. This is only emitted if the debug option is enabled or a logger is specified.
+   */
+  DEBUG: DebugEntry
   /**
    * Emitted when a node connects to it's lavalink server.
    */
@@ -68,14 +132,35 @@ export interface LavalinkManagerEvents {
    * Emitted when a node encounters an error.
    */
   NODE_ERROR: { node: Node, error: Error }
+  /**
+   * Emitted when the number of addresses marked as failing by a node's route planner rises.
+   */
+  NODE_FAILING_ADDRESSES: { node: Node, failingAddresses: RoutePlannerFailingAddress[], previousCount: number }
   /**
    * Emitted when a node receives a payload from it's server.
    */
-  NODE_RAW: { node: Node, payload: any }
+  NODE_RAW: { node: Node, payload: InboundPayload }
+  /**
+   * Emitted when a node reconnects to it's lavalink server, after attached players have been restored.
+   * resumed is true if the previous session was resumed, and false if a new session was started.
+   */
+  NODE_RECONNECTED: { node: Node, resumed: boolean }
+  /**
+   * Emitted when a node is waiting to attempt to reconnect.
+   */
+  NODE_RECONNECTING: { node: Node, attempt: number, delay: number }
+  /**
+   * Emitted when a REST request attempt to a node's lavalink server finishes.
+   */
+  NODE_REQUEST: { node: Node, method: RequestMethods, route: string, status: number | null, duration: number, body: any, response: any }
+  /**
+   * Emitted when a node sends a payload to it's lavalink server.
+   */
+  NODE_SENT: { node: Node, payload: OutboundPayload }
   /**
-   * Emitted when a node is attempting to reconnect.
+   * Emitted when a node is marked as unhealthy. The node is excluded from LavalinkManager#leastLoadNodes and reconnects.
    */
-  NODE_RECONNECTING: Node
+  NODE_UNHEALTHY: { node: Node, reason: string }
   /**
    * Emitted when a player connects to a VC.
    */
@@ -97,6 +182,10 @@ export interface LavalinkManagerEvents {
    * The player is also automatically paused or destroyed when this event is emitted.
    */
   PLAYER_MOVED: { player: Player, oldChannel: Snowflake | null, newChannel: Snowflake | null }
+  /**
+   * Emitted when a player is moved to a different node.
+   */
+  PLAYER_NODE_MOVED: { player: Player, oldNode: Node, newNode: Node }
   /**
    * Emitted when a player is paused.
    */
@@ -121,6 +210,18 @@ export interface LavalinkManagerEvents {
    * Emitted when the server sends a track stuck event.
    */
   PLAYER_TRACK_STUCK: { player: Player, track: Track | null, thresholdMs: number }
+  /**
+   * Emitted when discord closes a player's voice connection.
+   */
+  PLAYER_VOICE_CLOSED: { player: Player, code: number, reason: string, byRemote: boolean }
+  /**
+   * Emitted when the manager's recorder fails to write to it's file.
+   */
+  RECORDER_ERROR: Error
+  /**
+   * Emitted when a search finishes.
+   */
+  SEARCH: { query: string, source: Source, result: SearchResult }
   /**
    * Emitted when the lavalink manager authorizes with spotify, or renews it's spotify token.
    */
@@ -131,11 +232,71 @@ export interface LavalinkManagerEvents {
   SPOTIFY_AUTH_ERROR: Error
 }
 
-export interface LavalinkManagerOptions extends Partial<CompleteLavalinkManagerOptions> {
+export interface LavalinkManagerOptions extends Partial<Omit<CompleteLavalinkManagerOptions, 'metrics'>> {
   /**
    * An array of nodes to connect to.
    */
   nodeOptions: NodeOptions[]
+  /**
+   * Options for the manager's metrics collector.
+   */
+  metrics?: Partial<MetricsOptions>
+}
+
+/**
+ * Options for removing a node.
+ */
+export interface RemoveNodeOptions {
+  /**
+   * If the node should be drained before it is destroyed.
+   * Draining stops new players from being bound to the node, and waits for it's existing players to be moved or destroyed.
+   * If false, the node is destroyed immediately and it's players are failed over or destroyed depending on the manager's failover option.
+   * @default false
+   */
+  drain?: boolean
+  /**
+   * If the node's existing players should be moved to other nodes while draining.
+   * If false, the node waits for it's players to be destroyed.
+   * @default true
+   */
+  migrate?: boolean
+  /**
+   * The maximum time in milliseconds to wait for the node to drain before destroying it. Setting this to 0 removes the limit.
+   * @default 0
+   */
+  timeout?: number
+}
+
+/**
+ * Options for searching.
+ */
+export interface SearchOptions {
+  /**
+   * A filter restricting which nodes can perform the search.
+   */
+  nodeFilter?: NodeFilter
+  /**
+   * A signal to abort the search with.
+   */
+  signal?: AbortSignal
+  /**
+   * The maximum number of tracks to fetch from playlists resolved by source resolvers, such as spotify playlists.
+   */
+  playlistLimit?: number
+}
+
+/**
+ * Options for resolving a track partial.
+ */
+export interface ResolveTrackOptions {
+  /**
+   * A signal to abort the search with.
+   */
+  signal?: AbortSignal
+  /**
+   * The guild ID of the player the track is being resolved for. This is used to tag debug entries.
+   */
+  guildId?: Snowflake
 }
 
 /**
@@ -145,7 +306,7 @@ export interface SearchResult {
   /**
    * The result's load type.
    */
-  loadType: 'TRACK_LOADED' | 'PLAYLIST_LOADED' | 'SEARCH_RESULT' | 'NO_MATCHES' | 'LOAD_FAILED'
+  loadType: LoadType
   /**
    * The found tracks.
    */
@@ -160,22 +321,98 @@ export interface SearchResult {
   /**
    * An exception, if applicable.
    */
-  exception?: {
-    message: string
-    severity: string
-  }
+  exception?: LavalinkException
 }
 
+/**
+ * The type of a debug entry.
+ * 'payload' entries are created for payloads sent to lavalink servers.
+ * 'request' entries are created for REST request attempts, including their timings.
+ * 'nodeState' and 'playerState' entries are created for state transitions.
+ * 'voiceUpdate' entries are created for voice updates received from discord.
+ * 'queue' entries are created when a player's queue advances.
+ * 'resolve' entries are created when a track partial is resolved.
+ */
+export type DebugType = 'payload' | 'request' | 'nodeState' | 'playerState' | 'voiceUpdate' | 'queue' | 'resolve'
+
+/**
+ * A structured debug entry.
+ */
+export interface DebugEntry {
+  /**
+   * The entry's type.
+   */
+  type: DebugType
+  /**
+   * A description of the entry.
+   */
+  message: string
+  /**
+   * The identifier of the node the entry relates to, if applicable.
+   */
+  node: string | null
+  /**
+   * The guild ID of the player the entry relates to, if applicable.
+   */
+  guildId: Snowflake | null
+  /**
+   * Data relating to the entry.
+   */
+  data?: any
+  /**
+   * The time the entry was created, as a unix timestamp in milliseconds.
+   */
+  timestamp: number
+}
+
+/**
+ * A logger that receives debug entries.
+ */
+export interface DebugLogger {
+  debug: (entry: DebugEntry) => void
+}
+
+/**
+ * A custom load balancing strategy.
+ * @param nodes Connected nodes.
+ * @param manager The lavalink manager.
+ * @returns The nodes sorted from least to most load.
+ */
+export type LoadBalancingStrategy = (nodes: Node[], manager: LavalinkManager) => Node[]
+
 /**
  * A search source.
+ * 'youtube', 'youtubemusic', 'soundcloud' and 'bandcamp' support text searches. 'twitch', 'vimeo', 'http' and 'local' only support loading URLs, or file paths for 'local'.
  */
-export type Source = 'youtube' | 'soundcloud'
+export type Source = 'youtube' | 'youtubemusic' | 'soundcloud' | 'bandcamp' | 'twitch' | 'vimeo' | 'http' | 'local'
+
+/**
+ * A source's entry in the source registry.
+ */
+export interface SourceInfo {
+  /**
+   * The name of the lavalink source manager that handles the source.
+   */
+  sourceManager: string
+  /**
+   * The prefix used for text searches, for example 'ytsearch'. This is null if the source only supports loading URLs.
+   */
+  searchPrefix: string | null
+}
 
 export class LavalinkManager extends EventEmitter<LavalinkManagerEvents> {
+  /**
+   * The manager's gateway adapter.
+   */
+  public readonly adapter: GatewayAdapter
+  /**
+   * The manager's metrics collector.
+   */
+  public readonly metrics: Metrics
   /**
    * The manager's nodes.
    */
-  public nodes: Collection<number, Node> = new Collection()
+  public nodes: Collection<string, Node> = new Collection()
   /**
    * The manager's options.
    */
@@ -185,48 +422,168 @@ export class LavalinkManager extends EventEmitter<LavalinkManagerEvents> {
    */
   public players: Collection<Snowflake, Player> = new Collection()
   /**
-   * The manager's spotify token.
-   * Set when running LavalinkManager#connectNodes().
+   * The manager's traffic recorder. This is null if the record option is not specified.
+   */
+  public readonly recorder: Recorder | null = null
+  /**
+   * The manager's search cache. This is null if the searchCache option is not specified.
+   */
+  public readonly searchCache: SearchCache | null = null
+  /**
+   * The manager's track matcher, used to score search results when resolving track partials.
    */
-  public spotifyToken: string | null = null
+  public readonly trackMatcher: TrackMatcher
+  /**
+   * The manager's source resolvers, in the order they are checked.
+   */
+  public readonly resolvers: SourceResolver[] = []
+
+  /**
+   * The manager's discord-rose worker. This is null if a gateway adapter was passed to the manager instead of a worker.
+   * @deprecated Use LavalinkManager#adapter instead.
+   */
+  public readonly worker: Worker | null = null
+
+  /**
+   * The index of the next node to use with the round robin load balancing strategy. This is advanced when a node is picked for a player.
+   */
+  private roundRobinIndex: number = 0
+  /**
+   * If resolvers have been started by LavalinkManager#connectNodes().
+   */
+  private resolversStarted: boolean = false
 
   /**
    * Create a lavalink manager.
    * @param options The options to use for the manager.
-   * @param worker The manager's worker.
+   * @param worker The manager's worker, or a gateway adapter for using the manager with other discord libraries.
    */
-  constructor (options: LavalinkManagerOptions, public worker: Worker) {
+  constructor (options: LavalinkManagerOptions, worker: Worker | GatewayAdapter) {
     super()
 
     if (!options) throw new TypeError('Expected options to be defined')
     if (!worker) throw new TypeError('Expected worker to be defined')
+    if (typeof (worker as GatewayAdapter).sendVoiceStateUpdate === 'function') this.adapter = worker as GatewayAdapter
+    else {
+      this.worker = worker as Worker
+      this.adapter = new DiscordRoseAdapter(this.worker)
+    }
 
     if (!options.nodeOptions?.length) throw new Error('At least 1 node must be defined')
+    const unknownSource = options.enabledSources?.find((source) => !LavalinkManager.getSource(source))
+    if (unknownSource) throw new Error(`Unknown source "${unknownSource}"`)
+    if (options.defaultSource && !LavalinkManager.getSource(options.defaultSource)) throw new Error(`Unknown source "${options.defaultSource}"`)
     if (options.enabledSources && options.defaultSource && !options.enabledSources.includes(options.defaultSource)) throw new Error('Default source must be defined in enabled sources')
+    if (options.defaultSource && !LavalinkManager.getSource(options.defaultSource)?.searchPrefix) throw new Error(`Default source "${options.defaultSource}" does not support text searches`)
     if (options.spotifyAuth && (!options.spotifyAuth.clientId || !options.spotifyAuth.clientSecret)) throw new Error('Spotify auth is not properly defined')
 
-    for (const [i, nodeOption] of options.nodeOptions.entries()) this.nodes.set(i, new NodeClass(nodeOption, i, this))
-
     this.options = {
       nodeOptions: options.nodeOptions,
       enabledSources: options.enabledSources ?? ['youtube', 'soundcloud'],
+      failover: options.failover ?? true,
       leastLoadSort: options.leastLoadSort ?? 'system',
+      metrics: {
+        prefix: options.metrics?.prefix ?? 'lavalink_',
+        latencyBuckets: options.metrics?.latencyBuckets ?? [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+      },
+      debug: options.debug ?? false,
+      logger: options.logger,
+      record: options.record,
+      recordVoiceTokens: options.recordVoiceTokens ?? false,
+      searchCache: options.searchCache,
+      trackMatching: options.trackMatching,
       defaultSource: options.defaultSource ?? 'youtube',
-      spotifyAuth: options.spotifyAuth
+      resolvers: options.resolvers ?? [],
+      spotifyAuth: options.spotifyAuth,
+      defaultSpotifyRequestOptions: options.defaultSpotifyRequestOptions,
+      spotifyMarket: options.spotifyMarket
     }
 
-    this.worker.on('VOICE_SERVER_UPDATE', (data) => this._handleVoiceUpdate('VOICE_SERVER_UPDATE', data))
-    this.worker.on('VOICE_STATE_UPDATE', (data) => this._handleVoiceUpdate('VOICE_STATE_UPDATE', data))
+    if (this.options.logger) this.on('DEBUG', (entry) => this.options.logger?.debug(entry))
+
+    this.metrics = new Metrics(this)
+    if (this.options.record) this.recorder = new Recorder(this, this.options.record, !this.options.recordVoiceTokens)
+    if (this.options.searchCache) this.searchCache = new SearchCache(this.options.searchCache)
+    this.trackMatcher = new TrackMatcher(this.options.trackMatching)
+
+    for (const nodeOption of options.nodeOptions) this._createNode(nodeOption)
+    for (const resolver of this.options.resolvers) this.registerResolver(resolver)
+    if (this.options.spotifyAuth) this.registerResolver(new SpotifyResolver({ clientId: this.options.spotifyAuth.clientId, clientSecret: this.options.spotifyAuth.clientSecret, market: this.options.spotifyMarket, requestOptions: this.options.defaultSpotifyRequestOptions }))
+
+    this.adapter.onVoiceServerUpdate((data) => this._handleVoiceUpdate('VOICE_SERVER_UPDATE', data))
+    this.adapter.onVoiceStateUpdate((data) => this._handleVoiceUpdate('VOICE_STATE_UPDATE', data))
+  }
+
+  /**
+   * Get a source's entry in the source registry.
+   * @param source The source's name.
+   * @returns The source's entry, or null if the source is not known.
+   */
+  public static getSource (source: string): SourceInfo | null {
+    return Object.prototype.hasOwnProperty.call(Constants.SOURCES, source) ? Constants.SOURCES[source as Source] : null
   }
 
   /**
-   * Nodes sorted by cpu load.
+   * The manager's spotify token. This is null if spotify auth is not defined, or if the manager has not authorized with spotify yet.
+   * @deprecated Use SpotifyResolver#token instead.
+   */
+  public get spotifyToken (): string | null {
+    return (this.resolvers.find((resolver) => resolver instanceof SpotifyResolver) as SpotifyResolver | undefined)?.token ?? null
+  }
+
+  /**
+   * Connected, healthy nodes sorted by load, using the load balancing strategy specified by the leastLoadSort option.
    */
   public get leastLoadNodes (): Node[] {
-    return this.nodes
+    const nodes = this.nodes
       .reduce((p, v) => p.concat(v), [] as Node[])
-      .filter((node) => node.state === NodeState.CONNECTED)
-      .sort((a, b) => (a.stats.cpu ? a.stats.cpu[this.options.leastLoadSort === 'system' ? 'systemLoad' : 'lavalinkLoad'] / a.stats.cpu.cores : 0) - (b.stats.cpu ? b.stats.cpu[this.options.leastLoadSort === 'system' ? 'systemLoad' : 'lavalinkLoad'] / b.stats.cpu.cores : 0))
+      .filter((node) => node.state === NodeState.CONNECTED && node.healthy && !node.draining)
+
+    switch (this.options.leastLoadSort) {
+      case 'system':
+      case 'lavalink': {
+        const load = this.options.leastLoadSort === 'system' ? 'systemLoad' : 'lavalinkLoad'
+        return nodes.sort((a, b) => (a.stats.cpu ? a.stats.cpu[load] / a.stats.cpu.cores : 0) - (b.stats.cpu ? b.stats.cpu[load] / b.stats.cpu.cores : 0))
+      }
+      case 'penalty':
+        return nodes.sort((a, b) => a.penalty - b.penalty)
+      case 'players':
+        return nodes.sort((a, b) => (a.stats.playingPlayers - b.stats.playingPlayers) || (a.stats.players - b.stats.players))
+      case 'roundRobin': {
+        if (!nodes.length) return nodes
+        const start = this.roundRobinIndex % nodes.length
+        return nodes.slice(start).concat(nodes.slice(0, start))
+      }
+      default:
+        return this.options.leastLoadSort(nodes, this)
+    }
+  }
+
+  /**
+   * Get least load nodes that pass a filter.
+   * If no nodes pass the filter, all least load nodes are returned.
+   * @param filter The node filter.
+   * @returns The filtered nodes, sorted by load.
+   */
+  public filterNodes (filter?: NodeFilter): Node[] {
+    const nodes = this.leastLoadNodes
+    if (!filter) return nodes
+    const filtered = nodes.filter((node) => typeof filter === 'function' ? filter(node) : node.options.tags.includes(filter))
+    return filtered.length ? filtered : nodes
+  }
+
+  /**
+   * Get the least load node to bind a player to, preferring nodes in the region of a discord voice server.
+   * With the round robin load balancing strategy, the next call returns the node after the returned node.
+   * @param endpoint The voice server's endpoint.
+   * @param filter A filter restricting which nodes are considered.
+   * @returns The node, or undefined if there are no available nodes.
+   */
+  public leastLoadNode (endpoint?: string | null, filter?: NodeFilter): Node | undefined {
+    const nodes = this.filterNodes(filter)
+    const node = (endpoint ? nodes.find((node) => node.inRegion(endpoint)) : undefined) ?? nodes[0]
+    if (node && this.options.leastLoadSort === 'roundRobin') this.roundRobinIndex += this.leastLoadNodes.indexOf(node) + 1
+    return node
   }
 
   /**
@@ -234,26 +591,113 @@ export class LavalinkManager extends EventEmitter<LavalinkManagerEvents> {
    * @returns The results of node connection attempts.
    */
   public async connectNodes (): Promise<Array<PromiseSettledResult<Node>>> {
-    if (this.options.spotifyAuth) void this._renewSpotifyLoop()
-    const connect: Array<Promise<Node>> = []
-    this.nodes.forEach((node) => connect.push(new Promise((resolve, reject) => {
-      let attempts = 0
-      const tryConnect: () => void = async () => {
-        if (node.options.maxRetrys !== 0 && attempts >= node.options.maxRetrys) {
-          node.emit('ERROR', { node, error: new Error(`Unable to connect after ${attempts} attempts`) })
-          if (connectInterval) clearInterval(connectInterval)
-          reject(new Error('Max connect retrys reached'))
-        }
-        await node.connect().catch(() => attempts++)
-        if (node.state === NodeState.CONNECTED) {
-          if (connectInterval) clearInterval(connectInterval)
-          resolve(node)
-        }
+    this.resolversStarted = true
+    this.resolvers.forEach((resolver) => resolver.start?.(this))
+    return await Promise.allSettled(this.nodes.map(async (node) => await this._connectNode(node)))
+  }
+
+  /**
+   * Register a source resolver. Queries matched by the resolver are resolved by it instead of being loaded by a lavalink node.
+   * Resolvers are checked in the order they are registered.
+   * @param resolver The resolver to register.
+   */
+  public registerResolver (resolver: SourceResolver): void {
+    if (this.resolvers.some((r) => r.name === resolver.name)) throw new Error(`A resolver with the name "${resolver.name}" is already registered`)
+    this.resolvers.push(resolver)
+    if (this.resolversStarted) resolver.start?.(this)
+  }
+
+  /**
+   * Unregister a source resolver.
+   * @param name The resolver's name.
+   * @returns If a resolver was unregistered.
+   */
+  public unregisterResolver (name: string): boolean {
+    const index = this.resolvers.findIndex((resolver) => resolver.name === name)
+    if (index === -1) return false
+    const [resolver] = this.resolvers.splice(index, 1)
+    resolver.destroy?.()
+    return true
+  }
+
+  /**
+   * Add a node to the manager and connect it to it's server.
+   * @param options The node's options.
+   * @returns The added node.
+   */
+  public async addNode (options: NodeOptions): Promise<Node> {
+    return await this._connectNode(this._createNode(options))
+  }
+
+  /**
+   * Remove a node from the manager.
+   * @param identifier The node's identifier.
+   * @param options Options for removing the node.
+   */
+  public async removeNode (identifier: string, options: RemoveNodeOptions = {}): Promise<void> {
+    const node = this.nodes.get(identifier)
+    if (!node) throw new Error('No node with the specified identifier exists')
+    if (!options.drain) return node.destroy('Removed from the manager')
+
+    node.draining = true
+    const attached = (): Player[] => this.players.filter((player) => player.node === node && player.state !== PlayerState.DESTROYED).reduce((p, v) => p.concat(v), [] as Player[])
+
+    if (options.migrate ?? true) {
+      await Promise.all(attached().map(async (player) => {
+        const newNode = this.leastLoadNode(player.voiceEndpoint, player.options.nodeFilter)
+        if (newNode) await player.moveNode(newNode).catch((error) => player.emit('ERROR', { player, error }))
+      }))
+    }
+
+    await new Promise((resolve) => {
+      const done: () => void = () => {
+        this.removeListener('PLAYER_DESTROYED', check)
+        this.removeListener('PLAYER_NODE_MOVED', check)
+        if (drainTimeout) clearTimeout(drainTimeout)
+        resolve(undefined)
       }
-      tryConnect()
-      const connectInterval = setInterval(tryConnect, node.options.retryDelay)
-    })))
-    return await Promise.allSettled(connect)
+      const check: () => void = () => {
+        if (!attached().length) done()
+      }
+      const drainTimeout = options.timeout ? setTimeout(done, options.timeout) : null
+      this.on('PLAYER_DESTROYED', check)
+      this.on('PLAYER_NODE_MOVED', check)
+      check()
+    })
+
+    if (node.state !== NodeState.DESTROYED) node.destroy('Removed from the manager')
+  }
+
+  /**
+   * Get the route planner status of all connected nodes.
+   * Nodes that fail to respond emit an error and are excluded from the result.
+   * @returns The route planner statuses, keyed by node identifier. Statuses are null for nodes with the route planner disabled.
+   */
+  public async getRoutePlannerStatuses (): Promise<Collection<string, RoutePlannerStatus | null>> {
+    const statuses: Collection<string, RoutePlannerStatus | null> = new Collection()
+    await Promise.all(this.nodes.filter((node) => node.state === NodeState.CONNECTED).map(async (node) => {
+      await node.getRoutePlannerStatus()
+        .then((status) => statuses.set(node.identifier, status))
+        .catch((error) => node.emit('ERROR', { node, error }))
+    }))
+    return statuses
+  }
+
+  /**
+   * Unmark an address marked as failing on all connected nodes.
+   * @param address The address to unmark.
+   * @returns The results of the unmark attempts.
+   */
+  public async unmarkFailedAddress (address: string): Promise<Array<PromiseSettledResult<void>>> {
+    return await Promise.allSettled(this.nodes.filter((node) => node.state === NodeState.CONNECTED).map(async (node) => await node.unmarkFailedAddress(address)))
+  }
+
+  /**
+   * Unmark all addresses marked as failing on all connected nodes.
+   * @returns The results of the unmark attempts.
+   */
+  public async unmarkAllFailedAddresses (): Promise<Array<PromiseSettledResult<void>>> {
+    return await Promise.allSettled(this.nodes.filter((node) => node.state === NodeState.CONNECTED).map(async (node) => await node.unmarkAllFailedAddresses()))
   }
 
   /**
@@ -264,8 +708,9 @@ export class LavalinkManager extends EventEmitter<LavalinkManagerEvents> {
   public createPlayer (options: PlayerOptions): Player {
     if (!options?.guildId) throw new TypeError('Expected options.guildId to be defined')
     if (this.players.get(options.guildId)) throw new Error('A player already exists for that guild')
-    if (!this.leastLoadNodes[0]) throw new Error('No available nodes to bind the player to')
-    const player = new PlayerClass(options, this.leastLoadNodes[0], this)
+    const node = this.leastLoadNode(undefined, options.nodeFilter)
+    if (!node) throw new Error('No available nodes to bind the player to')
+    const player = new PlayerClass(options, node, this)
     this.players.set(options.guildId, player)
     return player
   }
@@ -273,125 +718,184 @@ export class LavalinkManager extends EventEmitter<LavalinkManagerEvents> {
   /**
    * Get search results based on a query.
    * If the query is a link, it will attempt to get a track from the link. If not, it will return results from a search using the specified or default source.
-   * If spotify auth is defined in the manager config, spotify links will resolve into youtube tracks.
+   * If the query is matched by a registered source resolver, it will be resolved by the resolver. For example, if spotify auth is defined in the manager config, spotify links will resolve into youtube tracks.
    * @param query The query to search with.
    * @param requester The user that requsted the track. This value is not crucial.
-   * @param source The source to use if the query is not a link, or if the link is from spotify. Defaults to the manager's default source.
+   * @param source The source to use if the query is not a link, or if the link is from spotify. Defaults to the manager's default source. Sources that only support loading URLs reject other queries, except for 'local', which loads them as file paths.
+   * @param options Search options.
    * @returns The search result.
    */
-  public async search (query: string, requester: string, source: Source = this.options.defaultSource): Promise<SearchResult> {
-    const searchNode = this.leastLoadNodes[0]
-    if (!searchNode) throw new Error('No available nodes to perform a search')
-
-    if (!this.options.enabledSources?.includes(source)) throw new Error('The provided source is not enabled')
-
-    const spotifyMatch = query.match(Constants.SPOTIFY_REGEX) ?? []
-    if (this.spotifyToken && ['album', 'playlist', 'track'].includes(spotifyMatch[1])) {
-      const headers = new Headers()
-      headers.set('Authorization', this.spotifyToken)
-      headers.set('Content-Type', 'application/json')
-
-      if (spotifyMatch[1] === 'album' || spotifyMatch[1] === 'playlist') {
-        const res = await fetch(`${Constants.SPOTIFY_BASE_URL}/${spotifyMatch[1]}s/${spotifyMatch[2]}`, Object.assign(Object.assign({}, this.options.defaultSpotifyRequestOptions ?? {}), {
-          method: 'GET', headers
-        }))
-        const data = await res.json()
-        if (!data?.tracks?.items?.length) {
-          return {
-            loadType: 'LOAD_FAILED',
-            tracks: [],
-            exception: {
-              message: `No spotify tracks found: HTTP Code ${res.status}`,
-              severity: 'COMMON'
-            }
-          }
-        }
-        const tracks = data.tracks.items.map((t) => new TrackPartialClass((t.track ?? t).name, requester, (t.track ?? t).artists.map((a) => a.name).join(', '), (t.track ?? t).duration_ms))
-        let next = data.tracks.next
-        while (next) {
-          const nextRes = await fetch(next, Object.assign(Object.assign({}, this.options.defaultSpotifyRequestOptions ?? {}), {
-            method: 'GET', headers
-          }))
-          const nextData = await nextRes.json()
-          if (nextData?.items?.length) tracks.push(...nextData.items.map((t) => new TrackPartialClass((t.track ?? t).name, requester, (t.track ?? t).artists.map((a) => a.name).join(', '), (t.track ?? t).duration_ms)))
-          if (nextData?.next) next = nextData.next
-          else next = null
-        }
-        return {
-          loadType: 'PLAYLIST_LOADED',
-          tracks: tracks,
-          playlistInfo: {
-            name: data.name,
-            selectedTrack: null
-          }
-        }
-      } else {
-        const res = await fetch(`${Constants.SPOTIFY_BASE_URL}/${spotifyMatch[1]}s/${spotifyMatch[2]}`, Object.assign(Object.assign({}, this.options.defaultSpotifyRequestOptions ?? {}), {
-          method: 'GET', headers
-        }))
-        const data = await res.json()
-        return {
-          loadType: 'TRACK_LOADED',
-          tracks: [new TrackPartialClass(data.name, requester, data.artists.map((a) => a.name).join(', '), data.duration_ms)]
-        }
-      }
-    } else {
-      const res = await searchNode.request('GET', '/loadtracks', { query: { identifier: Constants.URL_REGEX.test(query) ? query : `${Constants.SOURCE_IDENTIFIERS[source] as string}search:${query}` } })
-
-      if (!res?.json) throw new Error('No search response data')
-
-      const searchResult: SearchResult = {
-        loadType: res.json.loadType,
-        tracks: res.json.tracks.map((data: TrackData) => new TrackClass(data, requester)),
-        exception: res.json.exception
-      }
-      if (res.json.playlistInfo) {
-        searchResult.playlistInfo = {
-          name: res.json.playlistInfo.Name,
-          selectedTrack: typeof res.json.playlistInfo.selectedTrack === 'number' ? searchResult.tracks[res.json.playlistInfo.selectedTrack] as Track : null
-        }
-      }
-
-      return searchResult
-    }
+  public async search (query: string, requester: string, source: Source = this.options.defaultSource, options: SearchOptions = {}): Promise<SearchResult> {
+    const result = await this._search(query, requester, source, options)
+    this.emit('SEARCH', { query, source, result })
+    return result
   }
 
   /**
    * Decode track strings into an array of tracks.
    * @param tracks The tracks encoded in base64.
+   * @param options Decode options.
    * @returns An array of the decoded tracks.
    */
-  public async decodeTracks (tracks: string[]): Promise<Track[]> {
+  public async decodeTracks (tracks: string[], options: { signal?: AbortSignal } = {}): Promise<Track[]> {
     const decodeNode = this.leastLoadNodes[0]
     if (!decodeNode) throw new Error('No available nodes to decode the track')
 
-    const res = await decodeNode.request('POST', '/decodetracks', { body: tracks })
-    if (!res?.json) throw new Error('No decode response data')
-    return (res.json as []).map((data: TrackData) => new TrackClass(data, 'N/A'))
+    return (await decodeNode.decodeTracks(tracks, options.signal)).map((data) => new TrackClass(data, 'N/A'))
   }
 
   /**
    * Resolve a track partial into a track.
+   * If the partial has an ISRC, the default source is searched by the ISRC first. If no ISRC result scores above the acceptScore option, the default source is also searched by the partial's title and author.
+   * Results are scored with the manager's track matcher, and the highest scoring result is chosen. Scores are included in 'resolve' debug entries.
    * @param track The track partial to resolve.
+   * @param options Resolve options.
    * @returns The resolved track.
    */
-  public async resolveTrack (track: TrackPartial): Promise<Track> {
-    const search = await this.search(`${track.title}${track.author ? ` - ${track.author}` : ''}`, track.requester)
-    search.tracks = search.tracks.filter((t) => t instanceof TrackClass)
-    if (search.loadType !== 'SEARCH_RESULT' || !search.tracks.length) throw new Error('No results found')
-    if (track.author) {
-      const sameAuthor = search.tracks.filter((t) => [track.author ?? '', `${track.author ?? ''} - Topic`].some((name) => new RegExp(`^${name?.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`, 'i').test(t.author ?? '') ?? new RegExp(`^${name?.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`, 'i').test(t.title ?? ''))) as Track[]
-      if (sameAuthor.length) return sameAuthor[0]
+  public async resolveTrack (track: TrackPartial, options: ResolveTrackOptions = {}): Promise<Track> {
+    const candidates: Array<{ track: Track, score: TrackMatchScore }> = []
+    const addCandidates: (result: SearchResult | null, fromIsrc: boolean) => void = (result, fromIsrc) => {
+      if (result?.loadType !== 'SEARCH_RESULT') return
+      for (const t of result.tracks) {
+        if (!(t instanceof TrackClass) || candidates.some((c) => c.track.identifier === t.identifier)) continue
+        candidates.push({ track: t, score: this.trackMatcher.score(track, t, fromIsrc) })
+      }
+      candidates.sort((a, b) => b.score.total - a.score.total)
     }
-    if (track.length) {
-      const sameDuration = search.tracks.filter(t =>
-        t.length &&
-        (t.length >= ((track.length ?? 0) - 2000)) &&
-        (t.length <= ((track.length ?? 0) + 200))
-      ) as Track[]
-      if (sameDuration.length) return sameDuration[0]
+
+    if (track.isrc && this.trackMatcher.options.isrcSearch) {
+      addCandidates(await this.search(`"${track.isrc}"`, track.requester, undefined, { signal: options.signal }).catch((error) => {
+        if (options.signal?.aborted ?? false) throw error
+        return null
+      }), true)
+    }
+    if (!candidates.length || candidates[0].score.total < this.trackMatcher.options.acceptScore) {
+      addCandidates(await this.search(`${track.title}${track.author ? ` - ${track.author}` : ''}`, track.requester, undefined, { signal: options.signal }), false)
+    }
+
+    const scores = candidates.slice(0, 5).map((c) => ({ identifier: c.track.identifier, title: c.track.title, author: c.track.author, score: c.score }))
+    if (!candidates.length) {
+      this._debug('resolve', `No results found for "${track.title}"`, null, options.guildId ?? null, { partial: track })
+      throw new Error('No results found')
     }
-    return search.tracks[0] as Track
+    if (candidates[0].score.total < this.trackMatcher.options.minScore) {
+      this._debug('resolve', `No results for "${track.title}" reached the minimum score`, null, options.guildId ?? null, { partial: track, candidates: scores })
+      throw new Error('No results matched the track closely enough')
+    }
+    this._debug('resolve', `Resolved "${track.title}" to "${candidates[0].track.title}" with a score of ${candidates[0].score.total.toFixed(3)}`, null, options.guildId ?? null, { partial: track, identifier: candidates[0].track.identifier, score: candidates[0].score, candidates: scores })
+    return candidates[0].track
+  }
+
+  /**
+   * Get search results based on a query. See LavalinkManager#search().
+   * @param query The query to search with.
+   * @param requester The user that requsted the track.
+   * @param source The source to use.
+   * @param options Search options.
+   * @returns The search result.
+   */
+  private async _search (query: string, requester: string, source: Source, options: SearchOptions): Promise<SearchResult> {
+    if (!this.options.enabledSources?.includes(source)) throw new Error('The provided source is not enabled')
+
+    const isUrl = Constants.URL_REGEX.test(query)
+    const nodes = this.filterNodes(options.nodeFilter)
+    if (!nodes.length) throw new Error('No available nodes to perform a search')
+    const sourceInfo = LavalinkManager.getSource(source) as SourceInfo
+    const searchNodes = isUrl ? nodes : nodes.filter((node) => node.supportsSource(sourceInfo.sourceManager))
+    if (!searchNodes.length) throw new Error(`No available nodes support the "${source}" source`)
+
+    const resolver = this.resolvers.find((r) => r.matches(query))
+    const resolved = resolver ? await resolver.resolve(query, requester, { signal: options.signal, playlistLimit: options.playlistLimit }) : null
+    if (resolved) return resolved
+
+    if (!isUrl && !sourceInfo.searchPrefix && source !== 'local') throw new Error(`The "${source}" source does not support text searches`)
+    const identifier = isUrl || !sourceInfo.searchPrefix ? query : `${sourceInfo.searchPrefix}:${query}`
+    // Searches restricted by a node filter are cached separately for each set of nodes that can perform them.
+    const cacheKey = options.nodeFilter ? `${searchNodes.map((node) => node.identifier).sort().join(',')}|${identifier}` : identifier
+    const res = this.searchCache
+      ? await this.searchCache.get(cacheKey, async () => await this._loadTracks(searchNodes, identifier), options.signal)
+      : await this._loadTracks(searchNodes, identifier, options.signal)
+
+    const searchResult: SearchResult = {
+      loadType: res.loadType,
+      tracks: res.tracks.map((data) => new TrackClass(data, requester)),
+      exception: res.exception
+    }
+    if (res.playlistInfo) {
+      searchResult.playlistInfo = {
+        name: res.playlistInfo.name,
+        selectedTrack: res.playlistInfo.selectedTrack !== null ? searchResult.tracks[res.playlistInfo.selectedTrack] as Track ?? null : null
+      }
+    }
+
+    return searchResult
+  }
+
+  /**
+   * Load tracks, trying each node in order until one succeeds.
+   * @param nodes The nodes to try.
+   * @param identifier The identifier to load.
+   * @param signal A signal to abort the request with.
+   * @returns The load result.
+   */
+  private async _loadTracks (nodes: Node[], identifier: string, signal?: AbortSignal): Promise<LoadTracksResult> {
+    let lastError: Error | null = null
+    for (const node of nodes) {
+      try {
+        return await node.loadTracks(identifier, signal)
+      } catch (error) {
+        if (signal?.aborted ?? false) throw error
+        lastError = error
+      }
+    }
+    throw lastError ?? new Error('Unable to perform the search')
+  }
+
+  /**
+   * Create a node and add it to the manager.
+   * @param options The node's options.
+   * @returns The created node.
+   */
+  private _createNode (options: NodeOptions): Node {
+    const node = new NodeClass(options, this)
+    if (this.nodes.has(node.identifier)) throw new Error(`A node with the identifier "${node.identifier}" already exists`)
+    this.nodes.set(node.identifier, node)
+    return node
+  }
+
+  /**
+   * Connect a node to it's server, retrying with the node's backoff policy until the node's max retrys are reached.
+   * @param node The node to connect.
+   * @returns The connected node.
+   */
+  private async _connectNode (node: Node): Promise<Node> {
+    return await new Promise((resolve, reject) => {
+      let attempts = 0
+      const tryConnect: () => void = async () => {
+        await node.connect().catch(() => attempts++)
+        if (node.state === NodeState.CONNECTED) return resolve(node)
+        if (node.state === NodeState.DESTROYED) return reject(new Error('Node was destroyed while connecting'))
+        if (node.options.maxRetrys !== 0 && attempts >= node.options.maxRetrys) {
+          node.emit('ERROR', { node, error: new Error(`Unable to connect after ${attempts} attempts`) })
+          return reject(new Error('Max connect retrys reached'))
+        }
+        setTimeout(tryConnect, node.backoffDelay(attempts))
+      }
+      tryConnect()
+    })
+  }
+
+  /**
+   * Create a debug entry, if the debug option is enabled or a logger is specified.
+   * @param type The entry's type.
+   * @param message A description of the entry.
+   * @param node The node the entry relates to.
+   * @param guildId The guild ID of the player the entry relates to.
+   * @param data Data relating to the entry.
+   */
+  private _debug (type: DebugType, message: string, node: Node | null, guildId: Snowflake | null, data?: any): void {
+    if (!this.options.debug && !this.options.logger) return
+    this.emit('DEBUG', { type, message, node: node?.identifier ?? null, guildId, data, timestamp: Date.now() })
   }
 
   /**
@@ -399,57 +903,28 @@ export class LavalinkManager extends EventEmitter<LavalinkManagerEvents> {
    * @param event The emitted event.
    * @param data Data from the event.
    */
-  private _handleVoiceUpdate (event: 'VOICE_SERVER_UPDATE' | 'VOICE_STATE_UPDATE', data: any): void {
+  private _handleVoiceUpdate (event: 'VOICE_SERVER_UPDATE' | 'VOICE_STATE_UPDATE', data: GatewayVoiceServerUpdateDispatchData | GatewayVoiceState): void {
     if (!data.guild_id) return
     const player = this.players.get(data.guild_id)
     if (!player) return
+    this._debug('voiceUpdate', `Received ${event}`, player.node, player.options.guildId, event === 'VOICE_STATE_UPDATE' ? { channelId: (data as GatewayVoiceState).channel_id, sessionId: (data as GatewayVoiceState).session_id } : { endpoint: (data as GatewayVoiceServerUpdateDispatchData).endpoint })
 
     if (event === 'VOICE_STATE_UPDATE') {
-      if (data.user_id !== this.worker.user.id) return
+      const state = data as GatewayVoiceState
+      if (state.user_id !== this.adapter.userId) return
       // @ts-expect-error Property '_handleMove' is private and only accessible within class 'Player'
-      void player._handleMove(data.channel_id, data)
+      void player._handleMove(state.channel_id, state)
     } else if (event === 'VOICE_SERVER_UPDATE') {
-      player.node.send({
-        op: 'voiceUpdate',
-        guildId: player.options.guildId,
-        // @ts-expect-error Property 'ws' is private and only accessible within class 'Shard'.
-        sessionId: this.worker.guildShard(player.options.guildId).ws.sessionID,
-        event: data
-      }).catch(() => {})
+      const server = data as GatewayVoiceServerUpdateDispatchData
+      // A null endpoint means the voice server is being reallocated, a new update will be sent once it is available.
+      if (!server.endpoint) return
+      const sessionId = this.adapter.getSessionId(player.options.guildId)
+      if (!sessionId) return void player.emit('ERROR', { player, error: new Error('Unable to get the gateway session ID for the voice server update') })
+      player.handleVoiceServerUpdate({
+        token: server.token,
+        endpoint: server.endpoint,
+        sessionId
+      }).catch((error) => player.emit('ERROR', { player, error }))
     }
   }
-
-  /**
-   * Authorize with Spotify.
-   * @returns The time the token is valid for in milliseconds.
-   */
-  private async _authorizeSpotify (): Promise<number> {
-    if (!this.options.spotifyAuth) throw new Error('Spotify auth must be defined')
-    const headers = new Headers()
-    headers.set('Authorization', `Basic ${Buffer.from(`${this.options.spotifyAuth.clientId}:${this.options.spotifyAuth.clientSecret}`).toString('base64')}`)
-    headers.set('Content-Type', 'application/x-www-form-urlencoded')
-    const res = await fetch(Constants.SPOTIFY_TOKEN_ENDPOINT, Object.assign(Object.assign({}, this.options.defaultSpotifyRequestOptions ?? {}), {
-      method: 'POST',
-      headers,
-      body: 'grant_type=client_credentials'
-    }))
-    const data = await res.json()
-    if (!data?.access_token) throw new Error('Invalid Spotify authentication')
-    this.spotifyToken = `Bearer ${data.access_token as string}`
-    this.emit('SPOTIFY_AUTHORIZED', { expiresIn: data.expires_in * 1000, token: this.spotifyToken })
-    return data.expires_in * 1000
-  }
-
-  /**
-   * A helper function to loop renewing spotify tokens.
-   */
-  private async _renewSpotifyLoop (): Promise<void> {
-    setTimeout(() => void this._renewSpotifyLoop(), await new Promise((resolve, reject) => {
-      const auth: () => void = () => void this._authorizeSpotify().then((time) => resolve(time)).catch((error) => {
-        this.emit('SPOTIFY_AUTH_ERROR', error)
-        auth()
-      })
-      auth()
-    }))
-  }
 }
@@ -0,0 +1,203 @@
+import { LavalinkManager, Node } from '../typings/lib'
+import { NodeState } from './Node'
+import { PlayerState } from './Player'
+
+export interface MetricsOptions {
+  /**
+   * The prefix to add to metric names.
+   * @default 'lavalink_'
+   */
+  prefix: string
+  /**
+   * The upper bounds of the REST request latency histogram's buckets, in seconds.
+   * @default [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+   */
+  latencyBuckets: number[]
+}
+
+/**
+ * Labels attached to a metric sample.
+ */
+interface Labels { [key: string]: string | number }
+
+/**
+ * A counter metric, keyed by serialized labels.
+ */
+interface Counter {
+  help: string
+  values: Map<string, number>
+}
+
+/**
+ * A histogram metric's samples for a single set of labels.
+ */
+interface HistogramSeries {
+  buckets: number[]
+  count: number
+  sum: number
+}
+
+/**
+ * Collects metrics about a lavalink manager's nodes and players, and renders them in the prometheus text exposition format.
+ */
+export class Metrics {
+  /**
+   * Counters, keyed by name.
+   */
+  private readonly counters: Map<string, Counter> = new Map()
+  /**
+   * REST request latency histogram series, keyed by serialized labels.
+   */
+  private readonly requestLatency: Map<string, HistogramSeries> = new Map()
+
+  /**
+   * Create a metrics collector.
+   * @param manager The manager to collect metrics from.
+   */
+  constructor (public readonly manager: LavalinkManager) {
+    this.manager.on('NODE_CONNECTED', (node) => this._increment('node_connects_total', 'Number of times nodes connected to their lavalink server.', { node: node.identifier }))
+    this.manager.on('NODE_RECONNECTED', ({ node, resumed }) => this._increment('node_reconnects_total', 'Number of times nodes reconnected to their lavalink server.', { node: node.identifier, resumed: String(resumed) }))
+    this.manager.on('NODE_RECONNECTING', ({ node }) => this._increment('node_reconnect_attempts_total', 'Number of reconnect attempts scheduled by nodes.', { node: node.identifier }))
+    this.manager.on('NODE_DISCONNECTED', ({ node }) => this._increment('node_disconnects_total', 'Number of times nodes disconnected from their lavalink server.', { node: node.identifier }))
+    this.manager.on('NODE_REQUEST', ({ node, method, status, duration }) => this._observeRequest({ node: node.identifier, method, status: status ?? 'error' }, duration / 1000))
+    this.manager.on('PLAYER_TRACK_START', ({ player }) => this._increment('track_starts_total', 'Number of tracks started.', { node: player.node.identifier }))
+    this.manager.on('PLAYER_TRACK_END', ({ player, reason }) => this._increment('track_ends_total', 'Number of tracks ended, by reason.', { node: player.node.identifier, reason }))
+    this.manager.on('PLAYER_TRACK_EXCEPTION', ({ player, severity }) => this._increment('track_exceptions_total', 'Number of track exceptions, by severity.', { node: player.node.identifier, severity }))
+    this.manager.on('PLAYER_TRACK_STUCK', ({ player }) => this._increment('track_stuck_total', 'Number of tracks that got stuck.', { node: player.node.identifier }))
+    this.manager.on('SEARCH', ({ source, result }) => this._increment('searches_total', 'Number of searches, by source and load type.', { source, load_type: result.loadType }))
+  }
+
+  /**
+   * Reset all collected counters and histograms.
+   * Gauges, such as node stats and player states, are read from the manager when rendering and are not affected.
+   */
+  public reset (): void {
+    this.counters.clear()
+    this.requestLatency.clear()
+  }
+
+  /**
+   * Render the metrics in the prometheus text exposition format.
+   * @returns The rendered metrics.
+   */
+  public render (): string {
+    const lines: string[] = []
+    const nodes = this.manager.nodes.reduce((p, v) => p.concat(v), [] as Node[])
+
+    const nodeGauges: Array<[string, string, (node: Node) => number | null]> = [
+      ['node_up', 'If the node is connected to it\'s lavalink server.', (node) => node.state === NodeState.CONNECTED ? 1 : 0],
+      ['node_healthy', 'If the node is healthy.', (node) => node.healthy ? 1 : 0],
+      ['node_draining', 'If the node is draining.', (node) => node.draining ? 1 : 0],
+      ['node_ping_seconds', 'The round trip time of the node\'s last heartbeat.', (node) => node.ping !== null ? node.ping / 1000 : null],
+      ['node_penalty', 'The node\'s load balancing penalty.', (node) => node.penalty],
+      ['node_players', 'The number of players on the node\'s lavalink server.', (node) => node.stats.players],
+      ['node_playing_players', 'The number of playing players on the node\'s lavalink server.', (node) => node.stats.playingPlayers],
+      ['node_uptime_seconds', 'The uptime of the node\'s lavalink server.', (node) => node.stats.uptime / 1000],
+      ['node_memory_free_bytes', 'Free memory of the node\'s lavalink server.', (node) => node.stats.memory.free],
+      ['node_memory_used_bytes', 'Used memory of the node\'s lavalink server.', (node) => node.stats.memory.used],
+      ['node_memory_allocated_bytes', 'Allocated memory of the node\'s lavalink server.', (node) => node.stats.memory.allocated],
+      ['node_memory_reservable_bytes', 'Reservable memory of the node\'s lavalink server.', (node) => node.stats.memory.reservable],
+      ['node_cpu_cores', 'CPU cores available to the node\'s lavalink server.', (node) => node.stats.cpu.cores],
+      ['node_cpu_system_load', 'System CPU load of the node\'s lavalink server.', (node) => node.stats.cpu.systemLoad],
+      ['node_cpu_lavalink_load', 'Lavalink CPU load of the node\'s lavalink server.', (node) => node.stats.cpu.lavalinkLoad],
+      ['node_frames_sent', 'Average frames sent per minute by the node\'s lavalink server.', (node) => node.stats.frameStats?.sent ?? null],
+      ['node_frames_nulled', 'Average frames nulled per minute by the node\'s lavalink server.', (node) => node.stats.frameStats?.nulled ?? null],
+      ['node_frames_deficit', 'Average frame deficit per minute of the node\'s lavalink server.', (node) => node.stats.frameStats?.deficit ?? null]
+    ]
+    for (const [name, help, get] of nodeGauges) {
+      this._header(lines, name, help, 'gauge')
+      for (const node of nodes) {
+        const value = get(node)
+        if (value !== null) lines.push(this._sample(name, { node: node.identifier }, value))
+      }
+    }
+
+    this._header(lines, 'players', 'The number of the manager\'s players, by state.', 'gauge')
+    const states = Object.keys(PlayerState).filter((key) => isNaN(Number(key)))
+    for (const state of states) lines.push(this._sample('players', { state: state.toLowerCase() }, this.manager.players.filter((player) => player.state === PlayerState[state]).size))
+
+    for (const [name, counter] of this.counters) {
+      this._header(lines, name, counter.help, 'counter')
+      for (const [labels, value] of counter.values) lines.push(`${this.manager.options.metrics.prefix}${name}${labels} ${value}`)
+    }
+
+    const name = 'rest_request_duration_seconds'
+    this._header(lines, name, 'REST request latency to lavalink servers.', 'histogram')
+    for (const [labels, series] of this.requestLatency) {
+      const base = labels.slice(1, -1)
+      this.manager.options.metrics.latencyBuckets.forEach((bound, i) => lines.push(`${this.manager.options.metrics.prefix}${name}_bucket{${base},le="${bound}"} ${series.buckets[i]}`))
+      lines.push(`${this.manager.options.metrics.prefix}${name}_bucket{${base},le="+Inf"} ${series.count}`)
+      lines.push(`${this.manager.options.metrics.prefix}${name}_sum${labels} ${series.sum}`)
+      lines.push(`${this.manager.options.metrics.prefix}${name}_count${labels} ${series.count}`)
+    }
+
+    return `${lines.join('\n')}\n`
+  }
+
+  /**
+   * Increment a counter.
+   * @param name The counter's name, without the prefix.
+   * @param help The counter's description.
+   * @param labels The sample's labels.
+   */
+  private _increment (name: string, help: string, labels: Labels): void {
+    let counter = this.counters.get(name)
+    if (!counter) {
+      counter = { help, values: new Map() }
+      this.counters.set(name, counter)
+    }
+    const key = this._serializeLabels(labels)
+    counter.values.set(key, (counter.values.get(key) ?? 0) + 1)
+  }
+
+  /**
+   * Observe a REST request's latency.
+   * @param labels The sample's labels.
+   * @param seconds The request's duration in seconds.
+   */
+  private _observeRequest (labels: Labels, seconds: number): void {
+    const key = this._serializeLabels(labels)
+    let series = this.requestLatency.get(key)
+    if (!series) {
+      series = { buckets: this.manager.options.metrics.latencyBuckets.map(() => 0), count: 0, sum: 0 }
+      this.requestLatency.set(key, series)
+    }
+    this.manager.options.metrics.latencyBuckets.forEach((bound, i) => {
+      if (seconds <= bound) (series as HistogramSeries).buckets[i]++
+    })
+    series.count++
+    series.sum += seconds
+  }
+
+  /**
+   * Add a metric's HELP and TYPE lines.
+   * @param lines The lines to add to.
+   * @param name The metric's name, without the prefix.
+   * @param help The metric's description.
+   * @param type The metric's type.
+   */
+  private _header (lines: string[], name: string, help: string, type: 'counter' | 'gauge' | 'histogram'): void {
+    lines.push(`# HELP ${this.manager.options.metrics.prefix}${name} ${help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`)
+    lines.push(`# TYPE ${this.manager.options.metrics.prefix}${name} ${type}`)
+  }
+
+  /**
+   * Render a sample.
+   * @param name The metric's name, without the prefix.
+   * @param labels The sample's labels.
+   * @param value The sample's value.
+   * @returns The rendered sample.
+   */
+  private _sample (name: string, labels: Labels, value: number): string {
+    return `${this.manager.options.metrics.prefix}${name}${this._serializeLabels(labels)} ${value}`
+  }
+
+  /**
+   * Serialize labels, escaping their values.
+   * @param labels The labels to serialize.
+   * @returns The serialized labels.
+   */
+  private _serializeLabels (labels: Labels): string {
+    return `{${Object.keys(labels).map((key) => `${key}="${String(labels[key]).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`).join(',')}}`
+  }
+}
@@ -1,13 +1,24 @@
 import { LavalinkManager } from '../typings/lib'
+import { DebugEntry, DebugType } from './LavalinkManager'
 
-import { NodeStats } from '../typings/Lavalink'
+import { HTTPError } from './HTTPError'
 
+import Constants from '../util/Constants'
+
+import { Filters, InboundPayload, LoadTracksResult, NodeInfo, NodeStats, OutboundPayload, PlayerData, PlayerUpdateData, PlayOp, RoutePlannerFailingAddress, RoutePlannerStatus, TrackData, V3LoadTracksResponse, V4LoadTracksResponse, V4TrackData } from '../typings/Lavalink'
+
+import AbortController from 'abort-controller'
 import { EventEmitter } from '@jpbberry/typed-emitter'
-import fetch, { Headers, RequestRedirect, Response } from 'node-fetch'
+import fetch, { Headers, RequestInit, RequestRedirect, Response } from 'node-fetch'
 import { URLSearchParams } from 'url'
 import WebSocket from 'ws'
 
 export interface CompleteNodeOptions {
+  /**
+   * The node's identifier. This must be unique across the manager's nodes.
+   * @default '<host>:<port>'
+   */
+  identifier: string
   /**
    * The host for the node to use.
    * @default 'localhost'
@@ -35,6 +46,7 @@ export interface CompleteNodeOptions {
   clientName: string
   /**
    * A resume key to use when starting the node.
+   * This is only used by v3 servers, v4 servers resume with the node's previous session ID.
    * @see [Lavalink Docs](https://github.com/freyacodes/Lavalink/blob/dev/IMPLEMENTATION.md#resuming-lavalink-sessions)
    */
   resumeKey?: string
@@ -54,34 +66,106 @@ export interface CompleteNodeOptions {
      */
     timeout: number
   }
+  /**
+   * Region tags for the node. Players prefer nodes with a region matching the discord voice server they are connected to.
+   * Tags can be a voice region group (e.g. 'us-east', 'eu-west' or 'asia'), or a discord voice server name (e.g. 'rotterdam').
+   * @default []
+   */
+  regions: string[]
+  /**
+   * Tags for the node, used to group nodes. Node filters can restrict players and searches to nodes with a tag.
+   * @default []
+   */
+  tags: string[]
   /**
    * The time to wait before timing out a request.
    * @default 15000
    */
   requestTimeout: number
+  /**
+   * The number of times to retry a request that fails with a network error, times out, or receives a 429 or 5xx response.
+   * @default 2
+   */
+  requestRetries: number
+  /**
+   * The time in milliseconds to wait before the first request retry. This doubles after each retry, and is overridden by the Retry-After header if one is received.
+   * @default 1000
+   */
+  requestRetryDelay: number
   /**
    * The maximum number of times to try to connect or reconnect. Setting this to 0 removes the limit.
    * @default 10
    */
   maxRetrys: number
   /**
-   * The time in milliseconds to wait between connection or reconnection attempts.
-   * This must be greater than the connection timeout.
-   * @default 30000
+   * The time in milliseconds to wait before the first connection or reconnection retry.
+   * @default 15000
+   * @deprecated Use backoff.base instead.
    */
   retryDelay: number
+  /**
+   * The backoff policy to use between connection or reconnection attempts.
+   */
+  backoff: BackoffOptions
   /**
    * The amount of time to allow to connect to the lavalink server before timing out.
-   * This must be less than the connect / reconnect retry delay.
    * @default 15000
    */
   connectionTimeout: number
+  /**
+   * The interval in milliseconds to ping the lavalink server at. Setting this to 0 disables health monitoring.
+   * @default 30000
+   */
+  heartbeatInterval: number
+  /**
+   * The number of consecutive pings that can go unanswered before the node is marked as unhealthy.
+   * @default 2
+   */
+  maxMissedHeartbeats: number
+  /**
+   * The time in milliseconds after the last stats payload that the node is marked as unhealthy. Setting this to 0 disables the check.
+   * Lavalink servers send stats every minute.
+   * @default 180000
+   */
+  statsTimeout: number
+  /**
+   * The interval in milliseconds to check the route planner's failing addresses at. Setting this to 0 disables the check.
+   * @default 0
+   */
+  routePlannerInterval: number
   /**
    * The default request options to use.
    */
   defaultRequestOptions: RequestOptions
 }
 
+/**
+ * A backoff policy for connection and reconnection attempts.
+ * The delay before retry n is min(base * factor ^ (n - 1), maxDelay), randomly offset by up to jitter * delay in either direction.
+ */
+export interface BackoffOptions {
+  /**
+   * The delay in milliseconds before the first retry.
+   * @default 15000
+   */
+  base: number
+  /**
+   * The factor to multiply the delay by after each attempt.
+   * @default 2
+   */
+  factor: number
+  /**
+   * The maximum delay in milliseconds, before jitter is applied.
+   * @default 300000
+   */
+  maxDelay: number
+  /**
+   * The fraction of the delay to randomly offset it by, between 0 and 1.
+   * @default 0.2
+   */
+  jitter: number
+}
+
 export interface NodeEvents {
   /**
    * Emitted when the node connects to the lavalink server.
@@ -91,6 +175,10 @@ export interface NodeEvents {
    * Emitted when the node is created.
    */
   CREATED: Node
+  /**
+   * Emitted when the node creates a debug entry. This is only emitted if the manager's debug option is enabled or a logger is specified.
+   */
+  DEBUG: DebugEntry
   /**
    * Emitted when the node is destroyed.
    */
@@ -103,17 +191,50 @@ export interface NodeEvents {
    * Emitted when the node encounters an error.
    */
   ERROR: { node: Node, error: Error }
+  /**
+   * Emitted when the number of addresses marked as failing by the node's route planner rises.
+   */
+  FAILING_ADDRESSES: { node: Node, failingAddresses: RoutePlannerFailingAddress[], previousCount: number }
   /**
    * Emitted when the node receives a payload from the server.
    */
-  RAW: { node: Node, payload: any }
+  RAW: { node: Node, payload: InboundPayload }
   /**
-   * Emitted when the node is attempting to reconnect.
+   * Emitted when a REST request attempt to the lavalink server finishes. Retried requests emit once per attempt.
+   * status and response are null if the attempt failed without receiving a response, and duration is in milliseconds.
    */
-  RECONNECTING: Node
+  REQUEST: { node: Node, method: RequestMethods, route: string, status: number | null, duration: number, body: any, response: any }
+  /**
+   * Emitted when the node sends a payload to the lavalink server.
+   */
+  SENT: { node: Node, payload: OutboundPayload }
+  /**
+   * Emitted when the node is marked as unhealthy. The node is excluded from LavalinkManager#leastLoadNodes and reconnects.
+   */
+  UNHEALTHY: { node: Node, reason: string }
+  /**
+   * Emitted when the node reconnects to the lavalink server, after attached players have been restored.
+   * resumed is true if the previous session was resumed, and false if a new session was started.
+   */
+  RECONNECTED: { node: Node, resumed: boolean }
+  /**
+   * Emitted when the node is waiting to attempt to reconnect.
+   */
+  RECONNECTING: { node: Node, attempt: number, delay: number }
 }
 
-export interface NodeOptions extends Partial<CompleteNodeOptions> {}
+export interface NodeOptions extends Partial<Omit<CompleteNodeOptions, 'backoff'>> {
+  /**
+   * The backoff policy to use between connection or reconnection attempts.
+   */
+  backoff?: Partial<BackoffOptions>
+}
+
+/**
+ * A filter restricting which nodes are considered. This is either a node tag, or a function that returns true for nodes that should be considered.
+ * If no available nodes pass the filter, all available nodes are considered.
+ */
+export type NodeFilter = string | ((node: Node) => boolean)
 
 export enum NodeState {
   DISCONNECTED,
@@ -134,17 +255,52 @@ export interface RequestOptions {
   redirect?: RequestRedirect
   agent?: any
   parser?: (data: any) => string
+  /**
+   * A signal to abort the request with.
+   */
+  signal?: AbortSignal
+  /**
+   * The number of times to retry the request. Defaults to the node's requestRetries option.
+   */
+  retries?: number
 }
 
 export class Node extends EventEmitter<NodeEvents> {
+  /**
+   * If the node is draining. Draining nodes are excluded from LavalinkManager#leastLoadNodes, so no new players are bound to them.
+   */
+  public draining: boolean = false
+  /**
+   * If the node is healthy. Nodes are marked as unhealthy when they miss heartbeats or their stats become stale.
+   */
+  public healthy: boolean = true
+  /**
+   * The node's identifier.
+   */
+  public readonly identifier: string
+  /**
+   * Information about the lavalink server, including it's enabled source managers, filters and plugins.
+   * This is set when running Node#connect(), and is null if the server does not expose an info endpoint.
+   */
+  public info: NodeInfo | null = null
+  /**
+   * The time the last stats payload was received, as a unix timestamp in milliseconds.
+   * This is null if no stats have been received.
+   */
+  public lastStatsAt: number | null = null
   /**
    * The node's options.
    */
   public readonly options: CompleteNodeOptions
   /**
-   * The node's state.
+   * The round trip time of the last ping to the lavalink server in milliseconds.
+   * This is null if a ping has not been answered.
    */
-  public state: NodeState = NodeState.DISCONNECTED
+  public ping: number | null = null
+  /**
+   * The node's session ID. This is only set when connected to a v4 server.
+   */
+  public sessionId: string | null = null
   /**
    * The node's stats.
    */
@@ -170,10 +326,52 @@ export class Node extends EventEmitter<NodeEvents> {
     }
   }
 
+  /**
+   * The major version of the lavalink server's protocol.
+   * This is set when running Node#connect().
+   */
+  public version: 3 | 4 | null = null
+
+  /**
+   * The time the connection was established, used for checking stats staleness before stats are received.
+   */
+  private connectedAt: number | null = null
+  /**
+   * If a connection attempt is in progress. The caller of Node#connect() retries failed attempts, so closes during an attempt do not start a reconnect.
+   */
+  private connecting: boolean = false
+  /**
+   * The node's current state.
+   */
+  private currentState: NodeState = NodeState.DISCONNECTED
+  /**
+   * Used for pinging the lavalink server.
+   */
+  private heartbeatInterval: NodeJS.Timeout | null = null
+  /**
+   * The time the last unanswered ping was sent. This is null if there is no unanswered ping.
+   */
+  private lastPingAt: number | null = null
+  /**
+   * The number of consecutive unanswered pings.
+   */
+  private missedHeartbeats: number = 0
+  /**
+   * The number of failing addresses in the last route planner status.
+   */
+  private failingAddressCount: number = 0
+  /**
+   * Used for checking the route planner's failing addresses.
+   */
+  private routePlannerInterval: NodeJS.Timeout | null = null
   /**
    * Incremented when reconnecting to compare to Node#options#maxRetrys.
    */
   private reconnectAttempts: number = 0
+  /**
+   * If the last connection resumed the previous session.
+   */
+  private sessionResumed: boolean = false
   /**
    * Used for delaying reconnection attempts.
    */
@@ -186,17 +384,16 @@ export class Node extends EventEmitter<NodeEvents> {
   /**
    * Create a node.
    * @param options The options to use for the node.
-   * @param identifier The node's identifier.
    * @param manager The node's manager.
    */
-  constructor (options: NodeOptions, public identifier: number, public manager: LavalinkManager) {
+  constructor (options: NodeOptions, public manager: LavalinkManager) {
     super()
 
     if (!options) throw new TypeError('Expected options to be defined')
-    if (identifier === undefined) throw new TypeError('Expected identifier to be defined')
     if (!manager) throw new TypeError('Expected manager to be defined')
 
     this.options = {
+      identifier: options.identifier ?? `${options.host ?? 'localhost'}:${options.port ?? 2333}`,
       host: options.host ?? 'localhost',
       port: options.port ?? 2333,
       password: options.password ?? 'youshallnotpass',
@@ -206,78 +403,99 @@ export class Node extends EventEmitter<NodeEvents> {
       clientName: options.clientName ?? 'rose-lavalink',
       connectionTimeout: options.connectionTimeout ?? 15000,
       requestTimeout: options.requestTimeout ?? 15000,
+      requestRetries: options.requestRetries ?? 2,
+      requestRetryDelay: options.requestRetryDelay ?? 1000,
       maxRetrys: options.maxRetrys ?? 10,
       retryDelay: options.retryDelay ?? 15000,
+      backoff: {
+        base: options.backoff?.base ?? options.retryDelay ?? 15000,
+        factor: options.backoff?.factor ?? 2,
+        maxDelay: options.backoff?.maxDelay ?? 300000,
+        jitter: options.backoff?.jitter ?? 0.2
+      },
+      regions: options.regions ?? [],
+      tags: options.tags ?? [],
+      heartbeatInterval: options.heartbeatInterval ?? 30000,
+      maxMissedHeartbeats: options.maxMissedHeartbeats ?? 2,
+      statsTimeout: options.statsTimeout ?? 180000,
+      routePlannerInterval: options.routePlannerInterval ?? 0,
       defaultRequestOptions: options.defaultRequestOptions ?? {}
     }
 
-    if (this.options.connectionTimeout > this.options.retryDelay) throw new Error('Node connection timeout must be greater than the reconnect retry delay')
+    this.identifier = this.options.identifier
+
+    if (this.options.backoff.factor < 1) throw new Error('Node backoff factor must be greater than or equal to 1')
+    if (this.options.backoff.jitter < 0 || this.options.backoff.jitter > 1) throw new Error('Node backoff jitter must be between 0 and 1')
 
     this.on('CONNECTED', (data) => this.manager.emit('NODE_CONNECTED', data))
     this.on('CREATED', (data) => this.manager.emit('NODE_CREATED', data))
+    this.on('DEBUG', (data) => this.manager.emit('DEBUG', data))
     this.on('DESTROYED', (data) => this.manager.emit('NODE_DESTROYED', data))
     this.on('DISCONNECTED', (data) => this.manager.emit('NODE_DISCONNECTED', data))
     this.on('ERROR', (data) => this.manager.emit('NODE_ERROR', data))
+    this.on('FAILING_ADDRESSES', (data) => this.manager.emit('NODE_FAILING_ADDRESSES', data))
     this.on('RAW', (data) => this.manager.emit('NODE_RAW', data))
+    this.on('RECONNECTED', (data) => this.manager.emit('NODE_RECONNECTED', data))
     this.on('RECONNECTING', (data) => this.manager.emit('NODE_RECONNECTING', data))
+    this.on('REQUEST', (data) => this.manager.emit('NODE_REQUEST', data))
+    this.on('SENT', (data) => this.manager.emit('NODE_SENT', data))
+    this.on('UNHEALTHY', (data) => this.manager.emit('NODE_UNHEALTHY', data))
 
     this.emit('CREATED', this)
   }
 
+  /**
+   * Get the delay before a retry, based on a backoff policy.
+   * @param backoff The backoff policy.
+   * @param attempt The retry number, starting at 1.
+   * @returns The delay in milliseconds.
+   */
+  public static backoffDelay (backoff: BackoffOptions, attempt: number): number {
+    const delay = Math.min(backoff.base * Math.pow(backoff.factor, Math.max(attempt - 1, 0)), backoff.maxDelay)
+    return Math.max(Math.round(delay + delay * backoff.jitter * (Math.random() * 2 - 1)), 0)
+  }
+
+  /**
+   * The node's state.
+   */
+  public get state (): NodeState {
+    return this.currentState
+  }
+
+  public set state (state: NodeState) {
+    if (state !== this.currentState) this._debug('nodeState', `${NodeState[this.currentState]} -> ${NodeState[state]}`, { from: this.currentState, to: state })
+    this.currentState = state
+  }
+
+  /**
+   * The node's penalty score, calculated from it's stats. A lower score indicates less load.
+   * This is used by the 'penalty' load balancing strategy, and is based on the penalties used by lavalink clients.
+   */
+  public get penalty (): number {
+    const playerPenalty = this.stats.playingPlayers
+    const cpuPenalty = Math.pow(1.05, 100 * (this.stats.cpu?.systemLoad ?? 0)) * 10 - 10
+    const deficitFramePenalty = this.stats.frameStats ? Math.pow(1.03, 500 * (this.stats.frameStats.deficit / 3000)) * 600 - 600 : 0
+    const nullFramePenalty = this.stats.frameStats ? (Math.pow(1.03, 500 * (this.stats.frameStats.nulled / 3000)) * 300 - 300) * 2 : 0
+    const memoryPenalty = this.stats.memory?.reservable ? Math.pow(1.05, 100 * (this.stats.memory.used / this.stats.memory.reservable)) * 10 - 10 : 0
+    return playerPenalty + cpuPenalty + deficitFramePenalty + nullFramePenalty + memoryPenalty
+  }
+
   /**
    * Connect the node to the lavalink server.
    */
   public async connect (): Promise<void> {
     if (this.state !== NodeState.DISCONNECTED && this.state !== NodeState.RECONNECTING) throw new Error('Cannot initiate a connection when the node isn\'t in a disconnected or reconnecting state')
+    if (this.connecting) throw new Error('A connection attempt is already in progress')
 
-    const headers = {
-      Authorization: this.options.password,
-      'User-Id': this.manager.worker.user.id,
-      'Client-Name': this.options.clientName
-    }
-    if (this.options.resumeKey) headers['Resume-Key'] = this.options.resumeKey
-
-    return await new Promise((resolve, reject) => {
-      const timedOut = setTimeout(() => {
-        const error = new Error('Timed out while connecting to the lavalink server')
-        this.emit('ERROR', { node: this, error })
-        reject(error)
-      }, this.options.connectionTimeout)
-
-      /* eslint-disable @typescript-eslint/no-non-null-assertion */
-      this.ws = new WebSocket(`ws${this.options.secure ? 's' : ''}://${this.options.host}:${this.options.port}/`, { headers })
-      if (this.state !== NodeState.RECONNECTING) this.state = NodeState.CONNECTING
-      this.ws.once('error', (error) => {
-        this.ws!.removeAllListeners()
-        this.ws = null
-        if (this.state !== NodeState.RECONNECTING) this.state = NodeState.DISCONNECTED
-        this._onError(error)
-        if (timedOut) clearTimeout(timedOut)
-        reject(error)
-      })
-      this.ws.once('open', async () => { // eslint-disable-line @typescript-eslint/no-misused-promises
-        this.ws!.removeAllListeners()
-        this._onOpen()
-        this.ws!.on('open', this._onOpen.bind(this))
-        this.ws!.on('close', this._onClose.bind(this))
-        this.ws!.on('error', this._onError.bind(this))
-        this.ws!.on('message', this._onMessage.bind(this))
-        if (timedOut) clearTimeout(timedOut)
-        if (this.options.resumeKeyConfig) {
-          await this.send({
-            op: 'configureResuming',
-            key: this.options.resumeKeyConfig.key,
-            timeout: Math.round(this.options.resumeKeyConfig.timeout / 1000)
-          }).catch((error) => reject(error))
-        }
-        resolve(undefined)
-      })
-      /* eslint-enable @typescript-eslint/no-non-null-assertion */
+    this.connecting = true
+    return await this._connect().finally(() => {
+      this.connecting = false
     })
   }
 
   /**
-   * Destroy the node and all attatched players.
+   * Destroy the node.
+   * Attached players are moved to the least load node if failover is enabled, otherwise they are destroyed.
    * @param reason The reason the node was destroyed.
    */
   public destroy (reason: string = 'Manual destroy'): void {
@@ -287,31 +505,259 @@ export class Node extends EventEmitter<NodeEvents> {
 
     this.reconnectAttempts = 0
     if (this.reconnectTimeout) {
-      clearInterval(this.reconnectTimeout)
+      clearTimeout(this.reconnectTimeout)
       this.reconnectTimeout = null
     }
-
-    this.manager.players.filter((player) => player.node.identifier === this.identifier).forEach((player) => player.destroy('Attached node destroyed'))
+    this._stopMonitoring()
 
     this.state = NodeState.DESTROYED
+
+    this.manager.players.filter((player) => player.node === this).forEach((player) => {
+      const newNode = this.manager.options.failover ? this.manager.leastLoadNode(player.voiceEndpoint, player.options.nodeFilter) : undefined
+      if (!newNode) return player.destroy('Attached node destroyed')
+      player.moveNode(newNode).catch((error) => {
+        player.emit('ERROR', { player, error })
+        player.destroy('Failed to move to a new node after the attached node was destroyed')
+      })
+    })
+
     this.emit('DESTROYED', { node: this, reason })
     this.removeAllListeners()
 
-    this.manager.nodes.delete(this.identifier)
+    // A different node with the same identifier may have been added after this node was removed.
+    if (this.manager.nodes.get(this.identifier) === this) this.manager.nodes.delete(this.identifier)
+  }
+
+  /**
+   * Update a player on the lavalink server.
+   * On v4 servers this sends a REST request, on v3 servers the update is translated into websocket ops.
+   * @param guildId The guild ID of the player.
+   * @param data The data to update the player with.
+   * @param noReplace If true, a track will not be replaced if one is already playing.
+   * @see [Lavalink Docs](https://lavalink.dev/api/rest.html#update-player)
+   */
+  public async updatePlayer (guildId: string, data: PlayerUpdateData, noReplace: boolean = false): Promise<void> {
+    if (this.state !== NodeState.CONNECTED) throw new Error('Cannot update players before a connection is established')
+
+    if (this.version === 4) {
+      await this.request('PATCH', `/v4/sessions/${this.sessionId as string}/players/${guildId}`, {
+        query: { noReplace },
+        body: data
+      })
+      return
+    }
+
+    if (data.voice) {
+      await this.send({
+        op: 'voiceUpdate',
+        guildId,
+        sessionId: data.voice.sessionId,
+        event: {
+          token: data.voice.token,
+          endpoint: data.voice.endpoint,
+          guild_id: guildId
+        }
+      })
+    }
+    if (typeof data.encodedTrack === 'string') {
+      const play: PlayOp = {
+        op: 'play',
+        guildId,
+        track: data.encodedTrack,
+        noReplace
+      }
+      if (typeof data.position === 'number') play.startTime = data.position
+      if (typeof data.endTime === 'number') play.endTime = data.endTime
+      if (typeof data.volume === 'number') play.volume = data.volume
+      if (typeof data.paused === 'boolean') play.pause = data.paused
+      await this.send(play)
+    } else {
+      if (data.encodedTrack === null) await this.send({ op: 'stop', guildId })
+      if (typeof data.position === 'number') await this.send({ op: 'seek', guildId, position: data.position })
+      if (typeof data.volume === 'number') await this.send({ op: 'volume', guildId, volume: data.volume })
+      if (typeof data.paused === 'boolean') await this.send({ op: 'pause', guildId, pause: data.paused })
+    }
+    if (data.filters) await this.send({ op: 'filters', guildId, ...data.filters })
+  }
+
+  /**
+   * Destroy a player on the lavalink server.
+   * @param guildId The guild ID of the player.
+   */
+  public async destroyPlayer (guildId: string): Promise<void> {
+    if (this.version === 4) await this.request('DELETE', `/v4/sessions/${this.sessionId as string}/players/${guildId}`)
+    else await this.send({ op: 'destroy', guildId })
+  }
+
+  /**
+   * Get a player's state from the lavalink server.
+   * This is only supported by v4 servers.
+   * @param guildId The guild ID of the player.
+   * @returns The player's state, or null if the player does not exist on the server.
+   */
+  public async getPlayer (guildId: string): Promise<PlayerData | null> {
+    if (this.version !== 4) throw new Error('Getting a player\'s state is only supported by v4 servers')
+    const res = await this.request<PlayerData>('GET', `/v4/sessions/${this.sessionId as string}/players/${guildId}`).catch((error) => {
+      if (error instanceof HTTPError && error.status === 404) return null
+      throw error
+    })
+    return res?.json ?? null
+  }
+
+  /**
+   * Load tracks from the lavalink server.
+   * @param identifier The identifier to load.
+   * @param signal A signal to abort the request with.
+   * @returns The load result, normalized to a consistent format regardless of the server's version.
+   */
+  public async loadTracks (identifier: string, signal?: AbortSignal): Promise<LoadTracksResult> {
+    if (this.version !== 4) {
+      const res = await this.request<V3LoadTracksResponse>('GET', '/loadtracks', { query: { identifier }, signal })
+      if (!res?.json) throw new Error('No search response data')
+      if (typeof res.json.loadType !== 'string' || !Array.isArray(res.json.tracks)) throw new Error(`Received invalid loadtracks response: HTTP Code ${res.res.status}`)
+      return {
+        loadType: res.json.loadType,
+        tracks: res.json.tracks,
+        playlistInfo: typeof res.json.playlistInfo?.name === 'string'
+          ? {
+              name: res.json.playlistInfo.name,
+              selectedTrack: typeof res.json.playlistInfo.selectedTrack === 'number' && res.json.playlistInfo.selectedTrack >= 0 ? res.json.playlistInfo.selectedTrack : null
+            }
+          : undefined,
+        exception: res.json.exception
+      }
+    }
+
+    const res = await this.request<V4LoadTracksResponse>('GET', '/v4/loadtracks', { query: { identifier }, signal })
+    if (!res?.json) throw new Error('No search response data')
+    if (typeof res.json.loadType !== 'string' || typeof res.json.data !== 'object') throw new Error(`Received invalid loadtracks response: HTTP Code ${res.res.status}`)
+
+    switch (res.json.loadType) {
+      case 'track':
+        return { loadType: 'TRACK_LOADED', tracks: [{ track: res.json.data.encoded, info: res.json.data.info }] }
+      case 'playlist':
+        return {
+          loadType: 'PLAYLIST_LOADED',
+          tracks: res.json.data.tracks.map((data: V4TrackData) => ({ track: data.encoded, info: data.info })),
+          playlistInfo: {
+            name: res.json.data.info.name,
+            selectedTrack: res.json.data.info.selectedTrack >= 0 ? res.json.data.info.selectedTrack : null
+          }
+        }
+      case 'search':
+        return { loadType: 'SEARCH_RESULT', tracks: res.json.data.map((data: V4TrackData) => ({ track: data.encoded, info: data.info })) }
+      case 'empty':
+        return { loadType: 'NO_MATCHES', tracks: [] }
+      case 'error':
+        return { loadType: 'LOAD_FAILED', tracks: [], exception: res.json.data }
+      default:
+        throw new Error(`Received unexpected load type "${(res.json as { loadType: string }).loadType}"`)
+    }
+  }
+
+  /**
+   * Decode track strings with the lavalink server.
+   * @param tracks The tracks encoded in base64.
+   * @param signal A signal to abort the request with.
+   * @returns The decoded track data.
+   */
+  public async decodeTracks (tracks: string[], signal?: AbortSignal): Promise<TrackData[]> {
+    const res = await this.request<TrackData[] | V4TrackData[]>('POST', this.version === 4 ? '/v4/decodetracks' : '/decodetracks', { body: tracks, signal })
+    if (!res?.json) throw new Error('No decode response data')
+    if (!Array.isArray(res.json)) throw new Error(`Received invalid decodetracks response: HTTP Code ${res.res.status}`)
+    return this.version === 4 ? (res.json as V4TrackData[]).map((data) => ({ track: data.encoded, info: data.info })) : res.json as TrackData[]
+  }
+
+  /**
+   * Get the delay before a connection or reconnection retry, based on the node's backoff policy.
+   * @param attempt The retry number, starting at 1.
+   * @returns The delay in milliseconds.
+   */
+  public backoffDelay (attempt: number): number {
+    return Node.backoffDelay(this.options.backoff, attempt)
+  }
+
+  /**
+   * Get the status of the node's route planner.
+   * @returns The route planner's status, or null if the route planner is disabled.
+   * @see [Lavalink Docs](https://lavalink.dev/api/rest.html#get-routeplanner-status)
+   */
+  public async getRoutePlannerStatus (): Promise<RoutePlannerStatus | null> {
+    const res = await this.request<RoutePlannerStatus | null>('GET', this.version === 4 ? '/v4/routeplanner/status' : '/routeplanner/status')
+    if (!res.json?.class) return null
+
+    const failingAddresses = res.json.details?.failingAddresses ?? []
+    const previousCount = this.failingAddressCount
+    this.failingAddressCount = failingAddresses.length
+    if (failingAddresses.length > previousCount) this.emit('FAILING_ADDRESSES', { node: this, failingAddresses, previousCount })
+
+    return res.json
+  }
+
+  /**
+   * Unmark an address that the node's route planner marked as failing.
+   * @param address The address to unmark.
+   */
+  public async unmarkFailedAddress (address: string): Promise<void> {
+    await this.request('POST', this.version === 4 ? '/v4/routeplanner/free/address' : '/routeplanner/free/address', { body: { address } })
+  }
+
+  /**
+   * Unmark all addresses that the node's route planner marked as failing.
+   */
+  public async unmarkAllFailedAddresses (): Promise<void> {
+    await this.request('POST', this.version === 4 ? '/v4/routeplanner/free/all' : '/routeplanner/free/all')
+    this.failingAddressCount = 0
+  }
+
+  /**
+   * Check if the node supports a source.
+   * Nodes without server info are assumed to support all sources.
+   * @param source The source manager's name, for example 'youtube' or 'soundcloud'.
+   * @returns If the source is supported.
+   */
+  public supportsSource (source: string): boolean {
+    return !this.info || this.info.sourceManagers.includes(source)
+  }
+
+  /**
+   * Get filters that the node does not support.
+   * Nodes without server info are assumed to support all filters.
+   * @param filters The filters to check.
+   * @returns The names of the unsupported filters.
+   */
+  public unsupportedFilters (filters: Filters): string[] {
+    if (!this.info) return []
+    return Object.keys(filters).filter((filter) => !(this.info as NodeInfo).filters.includes(filter))
+  }
+
+  /**
+   * Check if the node is in the region of a discord voice server.
+   * @param endpoint The voice server's endpoint.
+   * @returns If one of the node's region tags matches the voice server.
+   */
+  public inRegion (endpoint: string): boolean {
+    const region = endpoint?.match(Constants.VOICE_ENDPOINT_REGEX)?.[1]
+    if (!region) return false
+    return this.options.regions.some((tag) => tag === region || Constants.VOICE_REGIONS[tag]?.includes(region))
   }
 
   /**
    * Send data to the lavalink server.
    * @param msg The data to send.
    */
-  public async send (msg: any): Promise<boolean> {
+  public async send (msg: OutboundPayload): Promise<boolean> {
     if (this.state !== NodeState.CONNECTED) throw new Error('Cannot send payloads before a connection is established')
+    this._debug('payload', `Sending ${msg.op} payload`, msg, 'guildId' in msg ? msg.guildId : null)
     return await new Promise((resolve, reject) => {
       this.ws?.send(JSON.stringify(msg), (error) => {
         if (error) {
           this.emit('ERROR', { node: this, error })
           reject(error)
-        } else resolve(true)
+        } else {
+          this.emit('SENT', { node: this, payload: msg })
+          resolve(true)
+        }
       })
     })
   }
@@ -321,28 +767,123 @@ export class Node extends EventEmitter<NodeEvents> {
    * @param method The method to use.
    * @param route The route to use.
    * @param options Request options.
-   * @returns The response from the server.
+   * @returns The response from the server. The response body is parsed as JSON if the server responds with JSON, otherwise it is returned as text.
    */
-  public async request (method: RequestMethods, route: string, options: RequestOptions = {}): Promise<{ res: Response, json: any }> {
+  public async request<T = any> (method: RequestMethods, route: string, options: RequestOptions = {}): Promise<{ res: Response, json: T }> {
     options = Object.assign(Object.assign({}, this.options.defaultRequestOptions ?? {}), options)
     const headers = new Headers()
     headers.set('Authorization', this.options.password)
     if (options.body) headers.set('Content-Type', 'application/json')
     if (options.headers) Object.keys(options.headers).forEach((key) => headers.set(key, options.headers?.[key] as string))
 
-    return await new Promise((resolve, reject) => {
-      const timedOut = setTimeout(() => reject(new Error('408 Timed out on request')), this.options.requestTimeout)
+    const url = `http${this.options.secure ? 's' : ''}://${this.options.host}:${this.options.port}/${route.replace(/^\//gm, '')}${options.query ? `?${new URLSearchParams(options.query).toString()}` : ''}`
+    const retries = options.retries ?? this.options.requestRetries
 
-      fetch(`http${this.options.secure ? 's' : ''}://${this.options.host}:${this.options.port}/${route.replace(/^\//gm, '')}${options.query ? `?${new URLSearchParams(options.query).toString()}` : ''}`, {
-        method, headers, body: options.body ? (options.parser ?? JSON.stringify)(options.body) : undefined, agent: options.agent ?? null, redirect: options.redirect ?? 'follow'
-      }).then(async (res) => {
-        const json = res.status === 204 ? null : await res.json()
-        if (timedOut) clearTimeout(timedOut)
-        resolve({ res, json })
-      }).catch((error) => {
-        if (timedOut) clearTimeout(timedOut)
-        reject(error)
-      })
+    for (let attempt = 0; ; attempt++) {
+      let res: Response
+      const start = Date.now()
+      try {
+        res = await this._fetch(url, {
+          method, headers, body: options.body ? (options.parser ?? JSON.stringify)(options.body) : undefined, agent: options.agent ?? null, redirect: options.redirect ?? 'follow'
+        }, options.signal)
+      } catch (error) {
+        this._onRequest(method, route, null, Date.now() - start, attempt, options.body, null)
+        if ((options.signal?.aborted ?? false) || attempt >= retries) throw error
+        await this._wait(this.options.requestRetryDelay * Math.pow(2, attempt), options.signal)
+        continue
+      }
+
+      const text = res.status === 204 ? '' : await res.text()
+      let json: any = text.length ? text : null
+      if (text.length && res.headers.get('Content-Type')?.includes('application/json')) {
+        try {
+          json = JSON.parse(text)
+        } catch {}
+      }
+      this._onRequest(method, route, res.status, Date.now() - start, attempt, options.body, json)
+      if (res.ok) return { res, json }
+
+      const error = new HTTPError(method, route, res.status, json)
+      if (attempt >= retries || (res.status !== 429 && res.status < 500)) throw error
+      const retryAfter = res.headers.get('Retry-After')
+      const retryAfterMs = retryAfter ? (isNaN(Number(retryAfter)) ? new Date(retryAfter).getTime() - Date.now() : Number(retryAfter) * 1000) : NaN
+      await this._wait(isNaN(retryAfterMs) ? this.options.requestRetryDelay * Math.pow(2, attempt) : Math.max(retryAfterMs, 0), options.signal)
+    }
+  }
+
+  /**
+   * Emit a request attempt's result and create a debug entry for it.
+   * @param method The request's method.
+   * @param route The request's route.
+   * @param status The response's status code. This is null if no response was received.
+   * @param duration The attempt's duration in milliseconds.
+   * @param attempt The attempt's index, starting at 0.
+   * @param body The request's body.
+   * @param response The response's body.
+   */
+  private _onRequest (method: RequestMethods, route: string, status: number | null, duration: number, attempt: number, body: any, response: any): void {
+    this.emit('REQUEST', { node: this, method, route, status, duration, body, response })
+    this._debug('request', `${method} ${route} ${status ?? 'failed'} in ${duration}ms`, { method, route, status, duration, attempt }, route.match(/\/players\/(\d+)/)?.[1] ?? null)
+  }
+
+  /**
+   * Create a debug entry, if the manager's debug option is enabled or a logger is specified.
+   * @param type The entry's type.
+   * @param message A description of the entry.
+   * @param data Data relating to the entry.
+   * @param guildId The guild ID of the player the entry relates to, if applicable.
+   */
+  private _debug (type: DebugType, message: string, data?: any, guildId: string | null = null): void {
+    if (!this.manager.options.debug && !this.manager.options.logger) return
+    this.emit('DEBUG', { type, message, node: this.identifier, guildId, data, timestamp: Date.now() })
+  }
+
+  /**
+   * Send a single fetch request, aborting it if it times out or if the provided signal is aborted.
+   * @param url The URL to request.
+   * @param init The request's options.
+   * @param signal A signal to abort the request with.
+   * @returns The response.
+   */
+  private async _fetch (url: string, init: RequestInit, signal?: AbortSignal): Promise<Response> {
+    if (signal?.aborted) throw new Error('The request was aborted')
+    // The abort-controller package is used because the AbortController global is not available on all supported node versions.
+    const controller = new AbortController()
+    const onAbort: () => void = () => controller.abort()
+    ;(signal as NonNullable<RequestInit['signal']>)?.addEventListener('abort', onAbort)
+    let timedOut = false
+    const timeout = setTimeout(() => {
+      timedOut = true
+      controller.abort()
+    }, this.options.requestTimeout)
+
+    try {
+      return await fetch(url, Object.assign(init, { signal: controller.signal as NonNullable<RequestInit['signal']> }))
+    } catch (error) {
+      if (timedOut) throw new Error('408 Timed out on request')
+      throw error
+    } finally {
+      clearTimeout(timeout)
+      ;(signal as NonNullable<RequestInit['signal']>)?.removeEventListener('abort', onAbort)
+    }
+  }
+
+  /**
+   * Wait before retrying a request.
+   * @param time The time to wait in milliseconds.
+   * @param signal A signal that stops waiting and rejects when aborted.
+   */
+  private async _wait (time: number, signal?: AbortSignal): Promise<void> {
+    return await new Promise((resolve, reject) => {
+      const onAbort: () => void = () => {
+        clearTimeout(timeout)
+        reject(new Error('The request was aborted'))
+      }
+      const timeout = setTimeout(() => {
+        ;(signal as NonNullable<RequestInit['signal']>)?.removeEventListener('abort', onAbort)
+        resolve(undefined)
+      }, time)
+      ;(signal as NonNullable<RequestInit['signal']>)?.addEventListener('abort', onAbort)
     })
   }
 
@@ -350,18 +891,149 @@ export class Node extends EventEmitter<NodeEvents> {
    * Attempt to reconnect the node to the server.
    */
   private reconnect (): void {
+    if (this.state === NodeState.DESTROYED || this.reconnectTimeout) return
     this.state = NodeState.RECONNECTING
-    this.reconnectTimeout = setInterval(() => {
-      if (this.options.maxRetrys !== 0 && this.reconnectAttempts >= this.options.maxRetrys) {
-        this.emit('ERROR', { node: this, error: new Error(`Unable to reconnect after ${this.reconnectAttempts} attempts.`) })
-        return this.destroy()
-      }
+    if (this.options.maxRetrys !== 0 && this.reconnectAttempts >= this.options.maxRetrys) {
+      this.emit('ERROR', { node: this, error: new Error(`Unable to reconnect after ${this.reconnectAttempts} attempts.`) })
+      return this.destroy('Unable to reconnect')
+    }
+    this.reconnectAttempts++
+    const delay = this.backoffDelay(this.reconnectAttempts)
+    this.emit('RECONNECTING', { node: this, attempt: this.reconnectAttempts, delay })
+    this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = null
       this.ws?.removeAllListeners()
       this.ws = null
-      this.state = NodeState.RECONNECTING
-      this.emit('RECONNECTING', this)
-      this.connect().catch(() => this.reconnectAttempts++)
-    }, this.options.retryDelay)
+      this.connect().catch(() => this.reconnect())
+    }, delay)
+  }
+
+  /**
+   * Attempt to connect to the lavalink server.
+   */
+  private async _connect (): Promise<void> {
+    if (this.state !== NodeState.RECONNECTING) this.state = NodeState.CONNECTING
+    // The version and info requests count towards the connection timeout, so an unresponsive server fails within it.
+    const deadline = Date.now() + this.options.connectionTimeout
+    const controller = new AbortController()
+    const detectTimeout = setTimeout(() => controller.abort(), this.options.connectionTimeout)
+    this.version = await this._detectVersion(controller.signal as AbortSignal)
+    this.info = await this._fetchInfo(controller.signal as AbortSignal)
+    clearTimeout(detectTimeout)
+    if (controller.signal.aborted) {
+      if (this.state !== NodeState.RECONNECTING) this.state = NodeState.DISCONNECTED
+      const error = new Error('Timed out while connecting to the lavalink server')
+      this.emit('ERROR', { node: this, error })
+      throw error
+    }
+    this.sessionResumed = false
+
+    const headers = {
+      Authorization: this.options.password,
+      'User-Id': this.manager.adapter.userId,
+      'Client-Name': this.options.clientName
+    }
+    if (this.version === 4) {
+      if (this.sessionId && this.options.resumeKeyConfig) headers['Session-Id'] = this.sessionId
+    } else if (this.options.resumeKey) headers['Resume-Key'] = this.options.resumeKey
+
+    return await new Promise((resolve, reject) => {
+      let stopWaitingForReady: (() => void) | null = null
+      const timedOut = setTimeout(() => {
+        stopWaitingForReady?.()
+        this.ws?.removeAllListeners()
+        // Terminating a socket that is still connecting emits an error, which would be thrown without a listener.
+        this.ws?.on('error', () => {})
+        this.ws?.terminate()
+        this.ws = null
+        if (this.state !== NodeState.RECONNECTING) this.state = NodeState.DISCONNECTED
+        const error = new Error('Timed out while connecting to the lavalink server')
+        this.emit('ERROR', { node: this, error })
+        reject(error)
+      }, Math.max(deadline - Date.now(), 0))
+
+      /* eslint-disable @typescript-eslint/no-non-null-assertion */
+      this.ws = new WebSocket(`ws${this.options.secure ? 's' : ''}://${this.options.host}:${this.options.port}/${this.version === 4 ? 'v4/websocket' : ''}`, { headers })
+      this.ws.once('error', (error) => {
+        this.ws!.removeAllListeners()
+        this.ws = null
+        if (this.state !== NodeState.RECONNECTING) this.state = NodeState.DISCONNECTED
+        this._onError(error)
+        if (timedOut) clearTimeout(timedOut)
+        reject(error)
+      })
+      this.ws.once('upgrade', (res) => {
+        if (this.version !== 4) this.sessionResumed = res.headers['session-resumed'] === 'true'
+      })
+      this.ws.once('open', async () => { // eslint-disable-line @typescript-eslint/no-misused-promises
+        this.ws!.removeAllListeners()
+        this.ws!.on('open', this._onOpen.bind(this))
+        this.ws!.on('close', this._onClose.bind(this))
+        this.ws!.on('error', this._onError.bind(this))
+        this.ws!.on('message', this._onMessage.bind(this))
+        this.ws!.on('pong', this._onPong.bind(this))
+        if (this.version === 4) {
+          // v4 servers announce the session with a ready op, the node is not usable until it is received.
+          const ready = await new Promise<boolean>((resolve) => {
+            const onConnected: () => void = () => done(true)
+            const onDisconnected: () => void = () => done(false)
+            const done: (ready: boolean) => void = (ready) => {
+              this.removeListener('CONNECTED', onConnected)
+              this.removeListener('DISCONNECTED', onDisconnected)
+              stopWaitingForReady = null
+              resolve(ready)
+            }
+            stopWaitingForReady = onDisconnected
+            this.once('CONNECTED', onConnected)
+            this.once('DISCONNECTED', onDisconnected)
+          })
+          if (!ready) {
+            clearTimeout(timedOut)
+            return reject(new Error('The connection closed before the lavalink server was ready'))
+          }
+        } else this._onOpen()
+        if (timedOut) clearTimeout(timedOut)
+        if (this.options.resumeKeyConfig) {
+          if (this.version === 4) {
+            await this.request('PATCH', `/v4/sessions/${this.sessionId as string}`, {
+              body: {
+                resuming: true,
+                timeout: Math.round(this.options.resumeKeyConfig.timeout / 1000)
+              }
+            }).catch((error) => reject(error))
+          } else {
+            await this.send({
+              op: 'configureResuming',
+              key: this.options.resumeKeyConfig.key,
+              timeout: Math.round(this.options.resumeKeyConfig.timeout / 1000)
+            }).catch((error) => reject(error))
+          }
+        }
+        resolve(undefined)
+      })
+      /* eslint-enable @typescript-eslint/no-non-null-assertion */
+    })
+  }
+
+  /**
+   * Detect the major version of the lavalink server's protocol.
+   * Servers that do not expose a version endpoint are assumed to be v3.
+   * @param signal A signal to abort the request with.
+   * @returns The major version.
+   */
+  private async _detectVersion (signal?: AbortSignal): Promise<3 | 4> {
+    const res = await this.request<string>('GET', '/version', { retries: 0, signal }).catch(() => null)
+    return res?.res.ok && typeof res.json === 'string' && res.json.startsWith('4.') ? 4 : 3
+  }
+
+  /**
+   * Fetch information about the lavalink server.
+   * @param signal A signal to abort the request with.
+   * @returns The server's info, or null if the server does not expose an info endpoint.
+   */
+  private async _fetchInfo (signal?: AbortSignal): Promise<NodeInfo | null> {
+    const res = await this.request<NodeInfo>('GET', this.version === 4 ? '/v4/info' : '/v3/info', { retries: 0, signal }).catch(() => null)
+    return res?.res.ok && Array.isArray(res.json?.sourceManagers) ? res.json : null
   }
 
   /**
@@ -369,11 +1041,28 @@ export class Node extends EventEmitter<NodeEvents> {
    */
   private _onOpen (): void {
     if (this.reconnectTimeout) {
-      clearInterval(this.reconnectTimeout)
+      clearTimeout(this.reconnectTimeout)
       this.reconnectTimeout = null
     }
+    this.reconnectAttempts = 0
+    const reconnected = this.state === NodeState.RECONNECTING
     this.state = NodeState.CONNECTED
+    this._startMonitoring()
     this.emit('CONNECTED', this)
+    if (reconnected) void this._restorePlayers()
+  }
+
+  /**
+   * Restore attached players after reconnecting.
+   * If the session was resumed players are synced with the server, otherwise they are rebuilt from their local state.
+   */
+  private async _restorePlayers (): Promise<void> {
+    const resumed = this.sessionResumed
+    await Promise.all(this.manager.players.filter((player) => player.node === this).map(async (player) => {
+      // @ts-expect-error Property '_sync' is private and only accessible within class 'Player'
+      await (resumed ? player._sync() : player._restore()).catch((error) => player.emit('ERROR', { player, error }))
+    }))
+    this.emit('RECONNECTED', { node: this, resumed })
   }
 
   /**
@@ -382,9 +1071,75 @@ export class Node extends EventEmitter<NodeEvents> {
    * @param reason The close reason.
    */
   private _onClose (code: number, reason: string): void {
+    this._stopMonitoring()
     this.state = NodeState.DISCONNECTED
     this.emit('DISCONNECTED', { node: this, code, reason: reason.length ? reason : 'No reason specified' })
-    if (code !== 1000 && reason !== 'destroy') this.reconnect()
+    if (code !== 1000 && reason !== 'destroy' && !this.connecting) this.reconnect()
+  }
+
+  /**
+   * Fired when the websocket receives a pong.
+   */
+  private _onPong (): void {
+    if (this.lastPingAt === null) return
+    this.ping = Date.now() - this.lastPingAt
+    this.lastPingAt = null
+    this.missedHeartbeats = 0
+  }
+
+  /**
+   * Start pinging the lavalink server, checking the node's health and checking the route planner's failing addresses.
+   */
+  private _startMonitoring (): void {
+    this._stopMonitoring()
+    this.healthy = true
+    this.connectedAt = Date.now()
+    if (this.options.heartbeatInterval) this.heartbeatInterval = setInterval(() => this._heartbeat(), this.options.heartbeatInterval)
+    if (this.options.routePlannerInterval) {
+      this.routePlannerInterval = setInterval(() => {
+        this.getRoutePlannerStatus().catch((error) => this.emit('ERROR', { node: this, error }))
+      }, this.options.routePlannerInterval)
+    }
+  }
+
+  /**
+   * Stop monitoring the lavalink server.
+   */
+  private _stopMonitoring (): void {
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval)
+      this.heartbeatInterval = null
+    }
+    if (this.routePlannerInterval) {
+      clearInterval(this.routePlannerInterval)
+      this.routePlannerInterval = null
+    }
+    this.lastPingAt = null
+    this.missedHeartbeats = 0
+  }
+
+  /**
+   * Check the node's health and send a ping.
+   */
+  private _heartbeat (): void {
+    if (this.lastPingAt !== null) this.missedHeartbeats++
+    if (this.missedHeartbeats >= this.options.maxMissedHeartbeats) return this._markUnhealthy(`Missed ${this.missedHeartbeats} heartbeats`)
+    const statsAt = Math.max(this.lastStatsAt ?? 0, this.connectedAt ?? 0)
+    if (this.options.statsTimeout && Date.now() - statsAt > this.options.statsTimeout) return this._markUnhealthy(`No stats received for ${Date.now() - statsAt}ms`)
+
+    if (this.lastPingAt === null) this.lastPingAt = Date.now()
+    this.ws?.ping()
+  }
+
+  /**
+   * Mark the node as unhealthy and reconnect.
+   * @param reason The reason the node is unhealthy.
+   */
+  private _markUnhealthy (reason: string): void {
+    this._stopMonitoring()
+    this.healthy = false
+    this.emit('UNHEALTHY', { node: this, reason })
+    this.ws?.terminate()
   }
 
   /**
@@ -403,20 +1158,52 @@ export class Node extends EventEmitter<NodeEvents> {
   private _onMessage (data: Buffer | string): void {
     if (Array.isArray(data)) data = Buffer.concat(data)
     else if (data instanceof ArrayBuffer) data = Buffer.from(data)
-    const payload = JSON.parse(data.toString())
+
+    let payload: InboundPayload
+    try {
+      payload = JSON.parse(data.toString())
+    } catch (error) {
+      return void this.emit('ERROR', { node: this, error: new Error(`Received a payload that is not valid JSON: ${(error as Error).message}`) })
+    }
+
+    const invalid = this._validatePayload(payload)
+    if (invalid) return void this.emit('ERROR', { node: this, error: new Error(invalid) })
+
     this.emit('RAW', { node: this, payload })
 
     switch (payload.op) {
       case 'event':
       case 'playerUpdate':
         break
-      case 'stats':
-        delete payload.op
-        this.stats = { ...payload }
+      case 'ready':
+        this.sessionId = payload.sessionId
+        this.sessionResumed = payload.resumed
+        this._onOpen()
         break
-      default:
-        this.emit('ERROR', { node: this, error: new Error(`Received unexpected op "${payload.op as string | number}"`) })
+      case 'stats': {
+        this.lastStatsAt = Date.now()
+        const { op, ...stats } = payload
+        this.stats = stats
         break
+      }
+    }
+  }
+
+  /**
+   * Validate a payload received from the server.
+   * Only the fields of known ops and event types are validated, so payloads from server plugins are passed through.
+   * @param payload The payload to validate.
+   * @returns A description of why the payload is invalid, or null if it is valid.
+   */
+  private _validatePayload (payload: any): string | null {
+    if (typeof payload !== 'object' || payload === null) return 'Received a payload that is not an object'
+    const name: string = payload.op === 'event' ? payload.type : payload.op
+    const fields: { [field: string]: string } | undefined = Constants.PAYLOAD_FIELDS[name]
+    if (!fields || payload.op !== (name.endsWith('Event') ? 'event' : name)) return null
+    for (const field in fields) {
+      const type = payload[field] === null ? 'null' : typeof payload[field]
+      if (!fields[field].split('|').includes(type)) return `Received invalid "${name}" payload: expected "${field}" to be of type ${fields[field].split('|').join(' or ')}, got ${type}`
     }
+    return null
   }
 }
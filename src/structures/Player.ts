@@ -1,12 +1,15 @@
 import { LavalinkManager, Node, Track, TrackPartial } from '../typings/lib'
+import { DebugEntry, DebugType } from './LavalinkManager'
+import { NodeFilter, NodeState } from './Node'
 import { Track as TrackClass, TrackPartial as TrackPartialClass } from './Track'
 
-import { Filters } from '../typings/Lavalink'
+import { EventPayload, Filters, InboundPayload, PlayerUpdateData } from '../typings/Lavalink'
 
-import { APIRole, ChannelType } from 'discord-api-types'
-import Collection from '@discordjs/collection'
+import Constants from '../util/Constants'
+
+import { ChannelType, GatewayVoiceState } from 'discord-api-types'
 import { EventEmitter } from '@jpbberry/typed-emitter'
-import { PermissionsUtils, Snowflake } from 'discord-rose'
+import { Snowflake } from 'discord-rose'
 
 export interface CompletePlayerOptions {
   /**
@@ -55,10 +58,33 @@ export interface CompletePlayerOptions {
    * @default 'pause'
    */
   stageMoveBehavior: 'destroy' | 'pause'
+  /**
+   * Actions to take when discord closes the player's voice connection, keyed by close code.
+   * 'reconnect' will resend the voice state update to rejoin the voice channel, so discord sends new voice server data.
+   * 'resend' will resend the last voice server data to the lavalink server.
+   * 'destroy' will destroy the player.
+   * 'none' will take no action.
+   * Specified codes are merged with the defaults, and codes without an action default to 'none'. Actions are only taken when the connection was closed by discord.
+   * @default { 4006: 'reconnect', 4009: 'reconnect', 4015: 'reconnect' }
+   * @see [Discord Docs](https://discord.com/developers/docs/topics/opcodes-and-status-codes#voice-voice-close-event-codes)
+   */
+  voiceCloseBehavior: { [code: number]: VoiceCloseAction }
+  /**
+   * The maximum number of consecutive voice connection recovery attempts before the player is destroyed.
+   * The count is reset when the lavalink server reports the voice connection as connected. Setting this to 0 removes the limit.
+   * @default 3
+   */
+  maxVoiceRecoveries: number
+  /**
+   * A filter restricting which nodes the player can be bound to. This is used when creating the player, and when moving it to a different node.
+   */
+  nodeFilter?: NodeFilter
 }
 
 export type LoopType = 'off' | 'single' | 'queue'
 
+export type VoiceCloseAction = 'reconnect' | 'resend' | 'destroy' | 'none'
+
 export interface PlayerEvents {
   /**
    * Emitted when the player connects to a VC.
@@ -68,6 +94,10 @@ export interface PlayerEvents {
    * Emitted when the player is created.
    */
   CREATED: Player
+  /**
+   * Emitted when the player creates a debug entry. This is only emitted if the manager's debug option is enabled or a logger is specified.
+   */
+  DEBUG: DebugEntry
   /**
    * Emitted when the player is destroyed.
    */
@@ -81,6 +111,10 @@ export interface PlayerEvents {
    * The player is also automatically paused or destroyed when this event is emitted.
    */
   MOVED: { player: Player, oldChannel: Snowflake | null, newChannel: Snowflake | null }
+  /**
+   * Emitted when the player is moved to a different node.
+   */
+  NODE_MOVED: { player: Player, oldNode: Node, newNode: Node }
   /**
    * Emitted when the player is paused.
    */
@@ -105,6 +139,10 @@ export interface PlayerEvents {
    * Emitted when the server sends a track stuck event.
    */
   TRACK_STUCK: { player: Player, track: Track | null, thresholdMs: number }
+  /**
+   * Emitted when discord closes the player's voice connection.
+   */
+  VOICE_CLOSED: { player: Player, code: number, reason: string, byRemote: boolean }
 }
 
 export interface PlayerOptions extends Partial<CompletePlayerOptions> {
@@ -195,18 +233,35 @@ export class Player extends EventEmitter<PlayerEvents> {
    */
   public queuePosition: number | null = null
   /**
-   * The player's state.
+   * The endpoint of the discord voice server the player is connected to.
+   * This is null if a voice server update has not been received.
    */
-  public state: PlayerState = PlayerState.DISCONNECTED
+  public voiceEndpoint: string | null = null
   /**
    * The player's volume.
    */
   public volume: number = 100
 
+  /**
+   * The player's current state.
+   */
+  private currentState: PlayerState = PlayerState.DISCONNECTED
+  /**
+   * The last recieved voice server data.
+   */
+  private lastVoiceServer: PlayerUpdateData['voice'] | null = null
   /**
    * The last recieved voice state data.
    */
-  private lastVoiceState: any
+  private lastVoiceState: GatewayVoiceState | null = null
+  /**
+   * The bound payload handler attached to the player's node.
+   */
+  private readonly payloadHandler = this._handlePayload.bind(this)
+  /**
+   * The number of consecutive voice connection recovery attempts.
+   */
+  private voiceRecoveries: number = 0
   /**
    * A helper variable for setting the player's state after sending a play op with pause set to true.
    */
@@ -239,24 +294,42 @@ export class Player extends EventEmitter<PlayerEvents> {
       connectionTimeout: options.connectionTimeout ?? 15000,
       becomeSpeaker: options.becomeSpeaker ?? true,
       moveBehavior: options.moveBehavior ?? 'destroy',
-      stageMoveBehavior: options.stageMoveBehavior ?? 'pause'
+      stageMoveBehavior: options.stageMoveBehavior ?? 'pause',
+      voiceCloseBehavior: Object.assign({ 4006: 'reconnect', 4009: 'reconnect', 4015: 'reconnect' }, options.voiceCloseBehavior ?? {}),
+      maxVoiceRecoveries: options.maxVoiceRecoveries ?? 3,
+      nodeFilter: options.nodeFilter
     }
 
-    this.node.on('RAW', this._handlePayload.bind(this))
+    this.node.on('RAW', this.payloadHandler)
 
     this.on('CONNECTED', (data) => this.manager.emit('PLAYER_CONNECTED', data))
     this.on('CREATED', (data) => this.manager.emit('PLAYER_CREATED', data))
+    this.on('DEBUG', (data) => this.manager.emit('DEBUG', data))
     this.on('DESTROYED', (data) => this.manager.emit('PLAYER_DESTROYED', data))
     this.on('ERROR', (data) => this.manager.emit('PLAYER_ERROR', data))
     this.on('MOVED', (data) => this.manager.emit('PLAYER_MOVED', data))
+    this.on('NODE_MOVED', (data) => this.manager.emit('PLAYER_NODE_MOVED', data))
     this.on('TRACK_END', (data) => this.manager.emit('PLAYER_TRACK_END', data))
     this.on('TRACK_EXCEPTION', (data) => this.manager.emit('PLAYER_TRACK_EXCEPTION', data))
     this.on('TRACK_START', (data) => this.manager.emit('PLAYER_TRACK_START', data))
     this.on('TRACK_STUCK', (data) => this.manager.emit('PLAYER_TRACK_STUCK', data))
+    this.on('VOICE_CLOSED', (data) => this.manager.emit('PLAYER_VOICE_CLOSED', data))
 
     this.emit('CREATED', this)
   }
 
+  /**
+   * The player's state.
+   */
+  public get state (): PlayerState {
+    return this.currentState
+  }
+
+  public set state (state: PlayerState) {
+    if (state !== this.currentState) this._debug('playerState', `${PlayerState[this.currentState]} -> ${PlayerState[state]}`, { from: this.currentState, to: state })
+    this.currentState = state
+  }
+
   /**
    * If the player is paused.
    */
@@ -285,16 +358,7 @@ export class Player extends EventEmitter<PlayerEvents> {
   public async connect (): Promise<void> {
     if (this.state !== PlayerState.DISCONNECTED) throw new Error('Cannot initiate a connection when the player isn\'t in a disconnected state')
 
-    // @ts-expect-error Property 'ws' is private and only accessible within class 'Shard'.
-    void this.manager.worker.guildShard(this.options.guildId).ws._send({
-      op: 4,
-      d: {
-        guild_id: this.options.guildId,
-        channel_id: this.options.voiceChannelId,
-        self_mute: this.options.selfMute,
-        self_deaf: this.options.selfDeafen
-      }
-    })
+    void this._sendVoiceState(this.options.voiceChannelId)
 
     this.state = PlayerState.CONNECTING
 
@@ -308,20 +372,15 @@ export class Player extends EventEmitter<PlayerEvents> {
       const onConnect: () => Promise<void> = async () => {
         this.removeListener('DESTROYED', onDestroy)
         if (this.options.becomeSpeaker) {
-          const voiceChannel = await this.manager.worker.api.channels.get(this.options.voiceChannelId)
-          if (voiceChannel.type === ChannelType.GuildStageVoice) {
+          if (await this.manager.adapter.getChannelType(this.options.voiceChannelId) === ChannelType.GuildStageVoice) {
             this.isStage = true
             this.isSpeaker = false
             const permissions = await this._getStagePermissions()
             if (permissions.becomeSpeaker) {
-              await this.manager.worker.api.request('PATCH', `/guilds/${this.options.guildId}/voice-states/@me`, {
-                body: { channel_id: this.options.voiceChannelId, suppress: false }
-              })
+              await this.manager.adapter.modifyCurrentUserVoiceState(this.options.guildId, { channel_id: this.options.voiceChannelId, suppress: false })
               this.isSpeaker = true
             } else if (permissions.request) {
-              await this.manager.worker.api.request('PATCH', `/guilds/${this.options.guildId}/voice-states/@me`, {
-                body: { channel_id: this.options.voiceChannelId, request_to_speak_timestamp: new Date().toISOString() }
-              })
+              await this.manager.adapter.modifyCurrentUserVoiceState(this.options.guildId, { channel_id: this.options.voiceChannelId, request_to_speak_timestamp: new Date().toISOString() })
             } else {
               if (this.currentVoiceChannel) void this._disconnect()
               const error = new Error('Failed to connect to the stage channel, the bot does not have permissions to request to or become a speaker')
@@ -352,12 +411,9 @@ export class Player extends EventEmitter<PlayerEvents> {
    * @param reason The reason the player was destroyed.
    */
   public destroy (reason: string = 'Manual destroy'): void {
-    this.node.removeListener('RAW', this._handlePayload)
+    this.node.removeListener('RAW', this.payloadHandler)
     if (this.currentVoiceChannel) void this._disconnect()
-    void this.node.send({
-      op: 'destroy',
-      guildId: this.options.guildId
-    })
+    void this.node.destroyPlayer(this.options.guildId).catch(() => {})
     this.queue = []
     this.queuePosition = null
     this.position = null
@@ -367,6 +423,45 @@ export class Player extends EventEmitter<PlayerEvents> {
     this.manager.players.delete(this.options.guildId)
   }
 
+  /**
+   * Handle a voice server update. This is called by the manager when discord sends a voice server update for the player's guild.
+   * If the player's node is not in the voice server's region and a node in the region is available, the player is moved to it.
+   * @param voice The voice server data.
+   */
+  public async handleVoiceServerUpdate (voice: NonNullable<PlayerUpdateData['voice']>): Promise<void> {
+    this.lastVoiceServer = voice
+    this.voiceEndpoint = voice.endpoint
+    if (!this.node.inRegion(voice.endpoint)) {
+      const regionNode = this.manager.filterNodes(this.options.nodeFilter).find((node) => node.inRegion(voice.endpoint))
+      if (regionNode) return await this.moveNode(regionNode)
+    }
+    await this.node.updatePlayer(this.options.guildId, { voice })
+  }
+
+  /**
+   * Move the player to a different node.
+   * The player's voice connection, playback position, volume and filters are restored on the new node, and the player is destroyed on the old node.
+   * @param node The node to move to.
+   */
+  public async moveNode (node: Node): Promise<void> {
+    if (!node) throw new TypeError('Expected node to be defined')
+    if (node === this.node) throw new Error('The player is already attached to the specified node')
+    if (this.manager.nodes.get(node.identifier) !== node) throw new Error('The specified node is not managed by the player\'s manager')
+    if (node.state !== NodeState.CONNECTED) throw new Error('Cannot move to a node that isn\'t in a connected state')
+    if (node.draining) throw new Error('Cannot move to a draining node')
+    if (this.state === PlayerState.DESTROYED) throw new Error('Cannot move a destroyed player')
+
+    const oldNode = this.node
+    oldNode.removeListener('RAW', this.payloadHandler)
+    if (oldNode.state === NodeState.CONNECTED) await oldNode.destroyPlayer(this.options.guildId).catch(() => {})
+    this.node = node
+    this.node.on('RAW', this.payloadHandler)
+
+    await this._restore()
+
+    this.emit('NODE_MOVED', { player: this, oldNode, newNode: this.node })
+  }
+
   /**
    * Queue and play a track or tracks.
    * If a track is already playing, the specified track(s) will only be pushed to the queue.
@@ -382,7 +477,7 @@ export class Player extends EventEmitter<PlayerEvents> {
 
     if (this.state === PlayerState.CONNECTED) {
       const newPosition = track instanceof Array ? this.queue.length - track.length : this.queue.length - 1
-      if (this.queue[newPosition] instanceof TrackPartialClass) this.queue[newPosition] = await this.manager.resolveTrack(this.queue[newPosition])
+      if (this.queue[newPosition] instanceof TrackPartialClass) this.queue[newPosition] = await this.manager.resolveTrack(this.queue[newPosition], { guildId: this.options.guildId })
       if (!(this.queue[newPosition] instanceof TrackClass) || !(this.queue[newPosition] as Track).track) throw new TypeError('Invalid track')
       await this._play(this.queue[newPosition] as Track, options)
       this.queuePosition = newPosition
@@ -398,7 +493,7 @@ export class Player extends EventEmitter<PlayerEvents> {
     await this._stop()
     if (typeof index === 'number') {
       if (index < 0 || index >= this.queue.length) throw new Error('Invalid index')
-      if (this.queue[index] instanceof TrackPartialClass) this.queue[index] = await this.manager.resolveTrack(this.queue[index])
+      if (this.queue[index] instanceof TrackPartialClass) this.queue[index] = await this.manager.resolveTrack(this.queue[index], { guildId: this.options.guildId })
       if (!(this.queue[index] instanceof TrackClass) || !(this.queue[index] as Track).track) throw new TypeError('Invalid track')
       await this._play(this.queue[index] as Track)
       this.queuePosition = index
@@ -418,7 +513,7 @@ export class Player extends EventEmitter<PlayerEvents> {
       currentIndex--
       [this.queue[currentIndex], this.queue[randomIndex]] = [this.queue[randomIndex], this.queue[currentIndex]]
     }
-    if (this.queue[0] instanceof TrackPartialClass) this.queue[0] = await this.manager.resolveTrack(this.queue[0])
+    if (this.queue[0] instanceof TrackPartialClass) this.queue[0] = await this.manager.resolveTrack(this.queue[0], { guildId: this.options.guildId })
     if (!(this.queue[0] instanceof TrackClass) || !(this.queue[0]).track) throw new Error('Invalid track at new queue position 0')
     await this._play(this.queue[0])
     this.queuePosition = 0
@@ -432,11 +527,7 @@ export class Player extends EventEmitter<PlayerEvents> {
     if (this.state !== PlayerState.CONNECTED && this.state !== PlayerState.PAUSED && this.state !== PlayerState.PLAYING) throw new Error('Cannot seek when the player isn\'t in a connected, paused, or playing state')
     if (typeof position !== 'number') throw new TypeError('Expected position to be defined')
     if (position < 0) throw new Error('Position must be greater than 0')
-    await this.node.send({
-      op: 'seek',
-      guildId: this.options.guildId,
-      position
-    })
+    await this.node.updatePlayer(this.options.guildId, { position })
   }
 
   /**
@@ -444,11 +535,7 @@ export class Player extends EventEmitter<PlayerEvents> {
    */
   public async pause (reason: string = 'Manual Pause'): Promise<void> {
     if (this.state !== PlayerState.CONNECTED && this.state !== PlayerState.PAUSED && this.state !== PlayerState.PLAYING) throw new Error('Cannot pause when the player isn\'t in a connected, paused, or playing state')
-    await this.node.send({
-      op: 'pause',
-      guildId: this.options.guildId,
-      pause: true
-    })
+    await this.node.updatePlayer(this.options.guildId, { paused: true })
     this.state = PlayerState.PAUSED
     this.emit('PAUSED', { player: this, reason })
   }
@@ -458,11 +545,7 @@ export class Player extends EventEmitter<PlayerEvents> {
    */
   public async resume (reason: string = 'Manual Resume'): Promise<void> {
     if (this.state !== PlayerState.CONNECTED && this.state !== PlayerState.PAUSED && this.state !== PlayerState.PLAYING) throw new Error('Cannot resume when the player isn\'t in a connected, paused, or playing state')
-    await this.node.send({
-      op: 'pause',
-      guildId: this.options.guildId,
-      pause: false
-    })
+    await this.node.updatePlayer(this.options.guildId, { paused: false })
     this.state = PlayerState.PLAYING
     this.emit('RESUMED', { player: this, reason })
   }
@@ -517,25 +600,25 @@ export class Player extends EventEmitter<PlayerEvents> {
     if (this.state !== PlayerState.CONNECTED && this.state !== PlayerState.PAUSED && this.state !== PlayerState.PLAYING) throw new Error('Cannot set volume when the player isn\'t in a connected, paused, or playing state')
     if (volume < 0 || volume > 1000) throw new Error('Volume must be between 0 and 1000')
     this.volume = volume
-    await this.node.send({
-      op: 'volume',
-      guildId: this.options.guildId,
-      volume
-    })
+    await this.node.updatePlayer(this.options.guildId, { volume })
   }
 
   /**
    * Set the player's filters.
+   * If the player's node does not support the filters, the player is moved to a node that does.
    * @param filters The filters to use. An empty object clears filters.
    * @see [Lavalink Docs](https://github.com/freyacodes/Lavalink/blob/dev/IMPLEMENTATION.md#using-filters)
    */
   public async setFilters (filters: Filters): Promise<void> {
     if (this.state !== PlayerState.CONNECTED && this.state !== PlayerState.PAUSED && this.state !== PlayerState.PLAYING) throw new Error('Cannot set filters when the player isn\'t in a connected, paused, or playing state')
     if (!filters) throw new TypeError('Expected filters to be defined')
-    await this.node.send(Object.assign({
-      op: 'filters',
-      guildId: this.options.guildId
-    }, filters))
+    const unsupported = this.node.unsupportedFilters(filters)
+    if (unsupported.length) {
+      const node = this.manager.filterNodes(this.options.nodeFilter).find((node) => !node.unsupportedFilters(filters).length)
+      if (!node) throw new Error(`No available nodes support the ${unsupported.map((filter) => `"${filter}"`).join(', ')} filter${unsupported.length > 1 ? 's' : ''}`)
+      await this.moveNode(node)
+    }
+    await this.node.updatePlayer(this.options.guildId, { filters })
     this.filters = filters
   }
 
@@ -549,10 +632,11 @@ export class Player extends EventEmitter<PlayerEvents> {
       if (this.loop !== 'single') this.queuePosition++
       if (!this.currentTrack && this.loop === 'queue') this.queuePosition = 0
     }
+    this._debug('queue', this.currentTrack ? `Advanced the queue to position ${this.queuePosition}` : 'Reached the end of the queue', { queuePosition: this.queuePosition, queueLength: this.queue.length, loop: this.loop })
 
     if (this.currentTrack) {
       if (this.currentTrack instanceof TrackPartialClass) {
-        const resolved = await this.manager.resolveTrack(this.currentTrack).catch((error) => {
+        const resolved = await this.manager.resolveTrack(this.currentTrack, { guildId: this.options.guildId }).catch((error) => {
           this.emit('ERROR', { player: this, error })
         })
         if (!resolved) {
@@ -579,20 +663,22 @@ export class Player extends EventEmitter<PlayerEvents> {
     }
   }
 
+  /**
+   * Create a debug entry, if the manager's debug option is enabled or a logger is specified.
+   * @param type The entry's type.
+   * @param message A description of the entry.
+   * @param data Data relating to the entry.
+   */
+  private _debug (type: DebugType, message: string, data?: any): void {
+    if (!this.manager.options.debug && !this.manager.options.logger) return
+    this.emit('DEBUG', { type, message, node: this.node.identifier, guildId: this.options.guildId, data, timestamp: Date.now() })
+  }
+
   /**
    * Disconnect the bot from VC.
    */
   private async _disconnect (): Promise<void> {
-    // @ts-expect-error Property 'ws' is private and only accessible within class 'Shard'.
-    await this.manager.worker.guildShard(this.options.guildId).ws._send({
-      op: 4,
-      d: {
-        guild_id: this.options.guildId,
-        channel_id: null,
-        self_mute: false,
-        self_deafen: false
-      }
-    })
+    await this._sendVoiceState(null)
     this.currentVoiceChannel = null
     this.state = PlayerState.DISCONNECTED
   }
@@ -601,25 +687,14 @@ export class Player extends EventEmitter<PlayerEvents> {
    * Get the bot's stage permissions.
    */
   private async _getStagePermissions (): Promise<{ becomeSpeaker: boolean, request: boolean }> {
-    const voiceChannel = await this.manager.worker.api.channels.get(this.options.voiceChannelId)
-    const guild = await this.manager.worker.api.guilds.get(this.options.guildId)
-    const botPerms = PermissionsUtils.combine({
-      guild,
-      member: await this.manager.worker.api.members.get(guild.id, this.manager.worker.user.id),
-      overwrites: voiceChannel.permission_overwrites,
-      roleList: guild.roles.reduce<Collection<Snowflake, APIRole>>((p, c) => p.set(c.id, c), new Collection()) as any
-    })
-    return {
-      becomeSpeaker: PermissionsUtils.has(botPerms, 'mute'),
-      request: PermissionsUtils.has(botPerms, 'requestToSpeak' as any)
-    }
+    return await this.manager.adapter.getStagePermissions(this.options.guildId, this.options.voiceChannelId)
   }
 
   /**
    * Handle the bot being moved.
    * @param newChannel The new voice channel ID.
    */
-  private async _handleMove (newChannel: Snowflake | null, data: any): Promise<void> {
+  private async _handleMove (newChannel: Snowflake | null, data: GatewayVoiceState): Promise<void> {
     if (newChannel !== this.currentVoiceChannel) this.emit('MOVED', { player: this, oldChannel: this.currentVoiceChannel, newChannel })
 
     const wasCorrect: boolean = this.options.voiceChannelId === this.currentVoiceChannel
@@ -643,13 +718,9 @@ export class Player extends EventEmitter<PlayerEvents> {
             void this.pause('Moved to the audience')
             const permissions = await this._getStagePermissions()
             if (permissions.request) {
-              await this.manager.worker.api.request('PATCH', `/guilds/${this.options.guildId}/voice-states/@me`, {
-                body: { channel_id: this.options.voiceChannelId, request_to_speak_timestamp: new Date().toISOString() }
-              })
+              await this.manager.adapter.modifyCurrentUserVoiceState(this.options.guildId, { channel_id: this.options.voiceChannelId, request_to_speak_timestamp: new Date().toISOString() })
             } else if (permissions.becomeSpeaker) {
-              await this.manager.worker.api.request('PATCH', `/guilds/${this.options.guildId}/voice-states/@me`, {
-                body: { channel_id: this.options.voiceChannelId, suppress: false }
-              })
+              await this.manager.adapter.modifyCurrentUserVoiceState(this.options.guildId, { channel_id: this.options.voiceChannelId, suppress: false })
             }
           }
         }
@@ -665,27 +736,90 @@ export class Player extends EventEmitter<PlayerEvents> {
     this.lastVoiceState = data
   }
 
+  /**
+   * Handle discord closing the voice connection.
+   * @param code The close code.
+   * @param reason The close reason.
+   * @param byRemote If the connection was closed by discord.
+   */
+  private async _handleVoiceClose (code: number, reason: string, byRemote: boolean): Promise<void> {
+    this.emit('VOICE_CLOSED', { player: this, code, reason, byRemote })
+    if (!byRemote || this.state === PlayerState.DESTROYED) return
+
+    const action = this.options.voiceCloseBehavior[code] ?? 'none'
+    if (action === 'none') return
+    if (action === 'destroy') return this.destroy(`Voice connection closed: ${code} ${reason}`)
+
+    if (this.options.maxVoiceRecoveries !== 0 && this.voiceRecoveries >= this.options.maxVoiceRecoveries) return this.destroy(`Unable to recover the voice connection after ${this.voiceRecoveries} attempts`)
+    this.voiceRecoveries++
+
+    if (action === 'reconnect') await this._sendVoiceState(this.currentVoiceChannel ?? this.options.voiceChannelId)
+    else if (action === 'resend' && this.lastVoiceServer) await this.node.updatePlayer(this.options.guildId, { voice: this.lastVoiceServer })
+  }
+
+  /**
+   * Rebuild the player on it's node from local state.
+   * This sends the last voice server data, and replays the current track at the last known position with the player's volume and filters.
+   */
+  private async _restore (): Promise<void> {
+    if (this.lastVoiceServer) await this.node.updatePlayer(this.options.guildId, { voice: this.lastVoiceServer })
+
+    const data: PlayerUpdateData = { volume: this.volume, filters: this.filters }
+    if (this.currentTrack instanceof TrackClass && (this.state === PlayerState.PLAYING || this.state === PlayerState.PAUSED)) {
+      data.encodedTrack = this.currentTrack.track
+      data.position = this.position ?? 0
+      data.paused = this.state === PlayerState.PAUSED
+      if (data.paused) this.sentPausedPlay = true
+    }
+    await this.node.updatePlayer(this.options.guildId, data)
+  }
+
+  /**
+   * Sync the player with it's state on the server after a resumed session.
+   * v3 servers replay events missed while disconnected, so there is nothing to request.
+   */
+  private async _sync (): Promise<void> {
+    if (this.node.version !== 4) return
+    const data = await this.node.getPlayer(this.options.guildId)
+    if (!data) return await this._restore()
+
+    this.volume = data.volume
+    this.filters = data.filters ?? {}
+    if (data.track) {
+      this.position = data.state.position ?? null
+      if (this.state === PlayerState.CONNECTED || this.state === PlayerState.PAUSED || this.state === PlayerState.PLAYING) this.state = data.paused ? PlayerState.PAUSED : PlayerState.PLAYING
+    } else {
+      this.position = null
+      if (this.state === PlayerState.PAUSED || this.state === PlayerState.PLAYING) this.state = PlayerState.CONNECTED
+    }
+  }
+
   /**
    * Handle incoming payloads from the attached node.
    * @param payload The received payload.
    */
-  private async _handlePayload ({ node, payload }: { node: Node, payload: any }): Promise<void> {
+  private async _handlePayload ({ payload }: { node: Node, payload: InboundPayload }): Promise<void> {
+    if (payload.op !== 'playerUpdate' && payload.op !== 'event') return
     if (payload.guildId !== this.options.guildId) return
+    // Events from server plugins are only emitted as RAW.
+    if (payload.op === 'event' && !Constants.PAYLOAD_FIELDS[payload.type]) return
     if (payload.op === 'playerUpdate') {
       this.position = payload.state.position ?? null
-    } else if (payload.op === 'event') {
-      const track = typeof payload.track === 'string' ? (await this.manager.decodeTracks([payload.track]))[0] : null
-      // @ts-expect-error Cannot assign to 'requester' because it is a read-only property.
-      if (track) track.requester = this.currentTrack?.title === track.title ? this.currentTrack.requester : this.queue.find((v) => v.title === track.title)
+      if (payload.state.connected) this.voiceRecoveries = 0
+    } else {
+      const track = await this._eventTrack(payload)
       switch (payload.type) {
-        case 'TrackEndEvent':
+        case 'TrackEndEvent': {
+          // v4 servers send camel case reasons, they are normalized to the v3 format.
+          const reason: string = payload.reason.replace(/([a-z])([A-Z])/g, '$1_$2').toUpperCase()
           this.position = null
           this.state = PlayerState.CONNECTED
-          this.emit('TRACK_END', { player: this, track, reason: payload.reason })
-          if (payload.reason !== 'STOPPED' && payload.reason !== 'REPLACED') void this._advanceQueue()
+          this.emit('TRACK_END', { player: this, track, reason })
+          if (reason !== 'STOPPED' && reason !== 'REPLACED') void this._advanceQueue()
           break
+        }
         case 'TrackExceptionEvent':
-          this.emit('TRACK_EXCEPTION', { player: this, track, message: payload.exception.message, severity: payload.exception.severity, cause: payload.exception.cause })
+          this.emit('TRACK_EXCEPTION', { player: this, track, message: payload.exception.message, severity: payload.exception.severity, cause: payload.exception.cause ?? 'Unknown' })
           break
         case 'TrackStartEvent':
           if (this.sentPausedPlay) {
@@ -699,10 +833,26 @@ export class Player extends EventEmitter<PlayerEvents> {
           await this._stop().catch(() => {})
           void this._advanceQueue()
           break
+        case 'WebSocketClosedEvent':
+          await this._handleVoiceClose(payload.code, payload.reason, payload.byRemote).catch((error) => this.emit('ERROR', { player: this, error }))
+          break
       }
     }
   }
 
+  /**
+   * Get the track from an event payload.
+   * @param payload The event payload.
+   * @returns The event's track, or null if the event does not have a track.
+   */
+  private async _eventTrack (payload: EventPayload): Promise<Track | null> {
+    if (payload.type === 'WebSocketClosedEvent' || !payload.track) return null
+    const track = typeof payload.track === 'string' ? (await this.manager.decodeTracks([payload.track]))[0] : new TrackClass({ track: payload.track.encoded, info: payload.track.info }, 'N/A')
+    // @ts-expect-error Cannot assign to 'requester' because it is a read-only property.
+    if (track) track.requester = this.currentTrack?.title === track.title ? this.currentTrack.requester : this.queue.find((v) => v.title === track.title)?.requester ?? 'N/A'
+    return track ?? null
+  }
+
   /**
    * Helper function for sending play payloads to the server.
    * @param track The track to play.
@@ -720,21 +870,32 @@ export class Player extends EventEmitter<PlayerEvents> {
     if (this.isStage && !this.isSpeaker) options = Object.assign(options ?? {}, { pause: true })
 
     if (options?.pause) this.sentPausedPlay = true
-    await this.node.send(Object.assign({
-      op: 'play',
-      guildId: this.options.guildId,
-      track: track.track
-    }, options))
+    const data: PlayerUpdateData = { encodedTrack: track.track }
+    if (typeof options?.startTime === 'number') data.position = options.startTime
+    if (typeof options?.endTime === 'number') data.endTime = options.endTime
+    if (typeof options?.volume === 'number') data.volume = options.volume
+    data.paused = options?.pause ?? false
+    await this.node.updatePlayer(this.options.guildId, data)
+  }
+
+  /**
+   * Helper function for sending voice state updates to discord.
+   * @param channelId The voice channel to join, or null to disconnect.
+   */
+  private async _sendVoiceState (channelId: Snowflake | null): Promise<void> {
+    await this.manager.adapter.sendVoiceStateUpdate({
+      guild_id: this.options.guildId,
+      channel_id: channelId,
+      self_mute: channelId ? this.options.selfMute : false,
+      self_deaf: channelId ? this.options.selfDeafen : false
+    })
   }
 
   /**
    * Helper function for sending stop payloads to the server.
    */
   private async _stop (): Promise<void> {
-    await this.node.send({
-      op: 'stop',
-      guildId: this.options.guildId
-    })
+    await this.node.updatePlayer(this.options.guildId, { encodedTrack: null })
     this.position = null
     this.state = PlayerState.CONNECTED
   }
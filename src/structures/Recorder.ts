@@ -0,0 +1,95 @@
+import { LavalinkManager } from '../typings/lib'
+import { PlayerOptions } from './Player'
+import { RequestMethods } from './Node'
+
+import { InboundPayload, OutboundPayload } from '../typings/Lavalink'
+
+import { createWriteStream, WriteStream } from 'fs'
+import { GatewayVoiceServerUpdateDispatchData, GatewayVoiceState } from 'discord-api-types'
+import { Snowflake } from 'discord-rose'
+
+/**
+ * The data of an entry in a recording.
+ * 'start' entries are written when recording starts, and contain the bot's user ID.
+ * 'node' entries are written when a node connects, and contain the node's protocol version and session ID.
+ * 'player' entries are written when a player is created, and contain the player's options.
+ * 'raw' entries contain payloads received from lavalink servers, and 'send' entries contain payloads sent to lavalink servers.
+ * 'request' entries contain REST request attempts, including their bodies and responses.
+ * 'voice' entries contain voice events received from discord.
+ */
+export type RecordingEntryData = { type: 'start', userId: Snowflake }
+| { type: 'node', node: string, version: 3 | 4 | null, sessionId: string | null }
+| { type: 'player', node: string, guildId: Snowflake, options: PlayerOptions }
+| { type: 'raw', node: string, payload: InboundPayload }
+| { type: 'send', node: string, payload: OutboundPayload }
+| { type: 'request', node: string, method: RequestMethods, route: string, status: number | null, duration: number, body: any, response: any }
+| { type: 'voice', event: 'VOICE_STATE_UPDATE', data: GatewayVoiceState }
+| { type: 'voice', event: 'VOICE_SERVER_UPDATE', data: GatewayVoiceServerUpdateDispatchData }
+
+/**
+ * An entry in a recording, with the time it was recorded as a unix timestamp in milliseconds.
+ */
+export type RecordingEntry = RecordingEntryData & { time: number }
+
+/**
+ * Records a manager's lavalink traffic and discord voice events to a newline-delimited JSON file.
+ * Recordings can be replayed with the Replayer.
+ */
+export class Recorder {
+  /**
+   * If the recorder is recording.
+   */
+  public recording: boolean = true
+
+  /**
+   * If the start entry has been written.
+   */
+  private started: boolean = false
+  /**
+   * The file stream entries are written to.
+   */
+  private readonly stream: WriteStream
+
+  /**
+   * Create a recorder.
+   * @param manager The manager to record.
+   * @param path The path of the file to write to. Entries are appended if the file exists.
+   * @param redactVoiceTokens If discord voice tokens should be replaced with "[redacted]" in the recording.
+   */
+  constructor (public readonly manager: LavalinkManager, public readonly path: string, public readonly redactVoiceTokens: boolean = true) {
+    this.stream = createWriteStream(path, { flags: 'a' })
+    this.stream.on('error', (error) => this.manager.emit('RECORDER_ERROR', error))
+
+    this.manager.on('NODE_CONNECTED', (node) => this.write({ type: 'node', node: node.identifier, version: node.version, sessionId: node.sessionId }))
+    this.manager.on('NODE_RAW', ({ node, payload }) => this.write({ type: 'raw', node: node.identifier, payload }))
+    this.manager.on('NODE_SENT', ({ node, payload }) => this.write({ type: 'send', node: node.identifier, payload }))
+    this.manager.on('NODE_REQUEST', ({ node, method, route, status, duration, body, response }) => this.write({ type: 'request', node: node.identifier, method, route, status, duration, body, response }))
+    this.manager.on('PLAYER_CREATED', (player) => this.write({ type: 'player', node: player.node.identifier, guildId: player.options.guildId, options: player.options }))
+    this.manager.adapter.onVoiceStateUpdate((data) => this.write({ type: 'voice', event: 'VOICE_STATE_UPDATE', data }))
+    this.manager.adapter.onVoiceServerUpdate((data) => this.write({ type: 'voice', event: 'VOICE_SERVER_UPDATE', data }))
+  }
+
+  /**
+   * Write an entry to the recording.
+   * The start entry is written before the first entry, so the bot's user ID is resolved once the worker is ready.
+   * @param entry The entry's data.
+   */
+  public write (entry: RecordingEntryData): void {
+    if (!this.recording) return
+    if (!this.started && entry.type !== 'start') {
+      this.started = true
+      this.write({ type: 'start', userId: this.manager.adapter.userId })
+    }
+    // Voice server data is sent as { token, endpoint, ... } in voice events, v3 voiceUpdate ops and v4 player updates.
+    this.stream.write(`${JSON.stringify(Object.assign({ time: Date.now() }, entry), (key, value) => this.redactVoiceTokens && typeof value?.token === 'string' && 'endpoint' in value ? Object.assign({}, value, { token: '[redacted]' }) : value)}\n`)
+  }
+
+  /**
+   * Stop recording and close the file.
+   */
+  public async close (): Promise<void> {
+    if (!this.recording) return
+    this.recording = false
+    await new Promise((resolve) => this.stream.end(() => resolve(undefined)))
+  }
+}
@@ -0,0 +1,194 @@
+import { LoadTracksResult } from '../typings/Lavalink'
+
+import { RequestInit } from 'node-fetch'
+
+/**
+ * A storage backend for a search cache.
+ * Values are JSON serializable, so stores can be shared between processes, for example with redis.
+ */
+export interface SearchCacheStore {
+  /**
+   * Get a cached result.
+   * @param key The result's key.
+   * @returns The cached result, or null if the key is not cached or has expired.
+   */
+  get: (key: string) => Promise<LoadTracksResult | null> | LoadTracksResult | null
+  /**
+   * Cache a result.
+   * @param key The result's key.
+   * @param value The result.
+   * @param ttl The time in milliseconds the result should be cached for.
+   */
+  set: (key: string, value: LoadTracksResult, ttl: number) => Promise<void> | void
+  /**
+   * Remove a cached result.
+   * @param key The result's key.
+   */
+  delete: (key: string) => Promise<void> | void
+  /**
+   * Remove all cached results.
+   */
+  clear: () => Promise<void> | void
+}
+
+export interface SearchCacheOptions {
+  /**
+   * The time in milliseconds to cache results with tracks for.
+   * @default 600000
+   */
+  ttl: number
+  /**
+   * The time in milliseconds to cache NO_MATCHES results for. Setting this to 0 disables caching NO_MATCHES results.
+   * @default 60000
+   */
+  noMatchesTtl: number
+  /**
+   * The time in milliseconds to cache LOAD_FAILED results for. Setting this to 0 disables caching LOAD_FAILED results.
+   * @default 0
+   */
+  loadFailedTtl: number
+  /**
+   * The maximum number of results to keep in the default memory store. The least recently used results are evicted first.
+   * This has no effect if a custom store is specified.
+   * @default 1000
+   */
+  maxSize: number
+  /**
+   * The storage backend to use. Defaults to a MemorySearchCacheStore.
+   */
+  store?: SearchCacheStore
+}
+
+/**
+ * An in-memory search cache store, evicting the least recently used results when full.
+ */
+export class MemorySearchCacheStore implements SearchCacheStore {
+  /**
+   * Cached results and their expiry times, in least to most recently used order.
+   */
+  private readonly entries: Map<string, { value: LoadTracksResult, expiresAt: number }> = new Map()
+
+  /**
+   * Create a memory search cache store.
+   * @param maxSize The maximum number of results to keep.
+   */
+  constructor (public readonly maxSize: number) {}
+
+  /**
+   * The number of cached results, including expired results that have not been evicted.
+   */
+  public get size (): number {
+    return this.entries.size
+  }
+
+  public get (key: string): LoadTracksResult | null {
+    const entry = this.entries.get(key)
+    if (!entry) return null
+    this.entries.delete(key)
+    if (entry.expiresAt <= Date.now()) return null
+    this.entries.set(key, entry)
+    return entry.value
+  }
+
+  public set (key: string, value: LoadTracksResult, ttl: number): void {
+    this.entries.delete(key)
+    this.entries.set(key, { value, expiresAt: Date.now() + ttl })
+    while (this.entries.size > this.maxSize) this.entries.delete(this.entries.keys().next().value)
+  }
+
+  public delete (key: string): void {
+    this.entries.delete(key)
+  }
+
+  public clear (): void {
+    this.entries.clear()
+  }
+}
+
+/**
+ * A cache for load results, which coalesces identical concurrent loads.
+ */
+export class SearchCache {
+  /**
+   * The number of loads answered from the cache or by coalescing with an in-flight load.
+   */
+  public hits: number = 0
+  /**
+   * The number of loads that were not cached.
+   */
+  public misses: number = 0
+  /**
+   * The cache's options.
+   */
+  public readonly options: Required<SearchCacheOptions>
+
+  /**
+   * Loads in progress, keyed by cache key.
+   */
+  private readonly inFlight: Map<string, Promise<LoadTracksResult>> = new Map()
+
+  /**
+   * Create a search cache.
+   * @param options The cache's options.
+   */
+  constructor (options: Partial<SearchCacheOptions> = {}) {
+    this.options = {
+      ttl: options.ttl ?? 600000,
+      noMatchesTtl: options.noMatchesTtl ?? 60000,
+      loadFailedTtl: options.loadFailedTtl ?? 0,
+      maxSize: options.maxSize ?? 1000,
+      store: options.store ?? new MemorySearchCacheStore(options.maxSize ?? 1000)
+    }
+  }
+
+  /**
+   * Get a result from the cache, loading and caching it if it isn't cached.
+   * If an identical load is in progress, its result is shared instead of starting a new load.
+   * @param key The result's key.
+   * @param load A function that loads the result.
+   * @param signal A signal that stops waiting for the result when aborted. In-flight loads shared with other callers are not aborted.
+   * @returns The result.
+   */
+  public async get (key: string, load: () => Promise<LoadTracksResult>, signal?: AbortSignal): Promise<LoadTracksResult> {
+    const cached = await this.options.store.get(key)
+    if (cached) {
+      this.hits++
+      return cached
+    }
+
+    let promise = this.inFlight.get(key)
+    if (promise) this.hits++
+    else {
+      this.misses++
+      promise = load().then(async (result) => {
+        const ttl = result.loadType === 'NO_MATCHES' ? this.options.noMatchesTtl : result.loadType === 'LOAD_FAILED' ? this.options.loadFailedTtl : this.options.ttl
+        if (ttl > 0) await this.options.store.set(key, result, ttl)
+        return result
+      }).finally(() => this.inFlight.delete(key))
+      this.inFlight.set(key, promise)
+    }
+
+    if (!signal) return await promise
+    if (signal.aborted) throw new Error('The request was aborted')
+    return await new Promise((resolve, reject) => {
+      const onAbort: () => void = () => reject(new Error('The request was aborted'))
+      ;(signal as NonNullable<RequestInit['signal']>).addEventListener('abort', onAbort)
+      ;(promise as Promise<LoadTracksResult>).then(resolve, reject).finally(() => (signal as NonNullable<RequestInit['signal']>).removeEventListener('abort', onAbort))
+    })
+  }
+
+  /**
+   * Remove a cached result.
+   * @param key The result's key.
+   */
+  public async delete (key: string): Promise<void> {
+    await this.options.store.delete(key)
+  }
+
+  /**
+   * Remove all cached results.
+   */
+  public async clear (): Promise<void> {
+    await this.options.store.clear()
+  }
+}
@@ -0,0 +1,51 @@
+import { LavalinkManager } from '../typings/lib'
+import { SearchResult } from './LavalinkManager'
+
+/**
+ * Options passed to a source resolver when resolving a URL.
+ */
+export interface ResolveOptions {
+  /**
+   * A signal to abort the resolve with.
+   */
+  signal?: AbortSignal
+  /**
+   * The maximum number of tracks to fetch from playlists.
+   */
+  playlistLimit?: number
+}
+
+/**
+ * Resolves URLs from a metadata source, such as spotify, into search results.
+ * Resolvers are registered on the manager, and are checked in order before a query is loaded by a lavalink node.
+ * Results usually contain track partials, which are resolved into playable tracks with LavalinkManager#resolveTrack() when they are played.
+ */
+export interface SourceResolver {
+  /**
+   * The resolver's name. This must be unique among a manager's resolvers.
+   */
+  readonly name: string
+  /**
+   * Check if the resolver can resolve a query.
+   * @param url The query.
+   * @returns If the resolver can resolve the query.
+   */
+  matches: (url: string) => boolean
+  /**
+   * Resolve a query into a search result.
+   * @param url The query.
+   * @param requester The user that requested the query.
+   * @param options Resolve options.
+   * @returns The search result, or null to load the query with a lavalink node instead.
+   */
+  resolve: (url: string, requester: string, options: ResolveOptions) => Promise<SearchResult | null>
+  /**
+   * Called when the resolver is registered on a manager that is connecting, or when the manager connects it's nodes.
+   * @param manager The manager.
+   */
+  start?: (manager: LavalinkManager) => void
+  /**
+   * Called when the resolver is unregistered.
+   */
+  destroy?: () => void
+}
@@ -0,0 +1,301 @@
+import { LavalinkManager, TrackPartial } from '../typings/lib'
+import { HTTPError } from './HTTPError'
+import { SearchResult } from './LavalinkManager'
+import { BackoffOptions, Node, RequestOptions } from './Node'
+import { ResolveOptions, SourceResolver } from './SourceResolver'
+import { TrackPartial as TrackPartialClass } from './Track'
+
+import Constants from '../util/Constants'
+
+import fetch, { Headers, RequestInit } from 'node-fetch'
+
+export interface CompleteSpotifyResolverOptions {
+  /**
+   * The spotify application's client ID.
+   */
+  clientId: string
+  /**
+   * The spotify application's client secret.
+   */
+  clientSecret: string
+  /**
+   * The base URL of the spotify API. This can be changed to test against a local server.
+   * @default 'https://api.spotify.com/v1'
+   */
+  baseUrl: string
+  /**
+   * The URL to request tokens from. This can be changed to test against a local server.
+   * @default 'https://accounts.spotify.com/api/token'
+   */
+  tokenUrl: string
+  /**
+   * The market to look up tracks in, as an ISO 3166-1 alpha-2 country code. Tracks that are not playable in the market are skipped.
+   * Artist top tracks, episodes and shows are looked up in the 'US' market if this is not specified.
+   */
+  market?: string
+  /**
+   * The maximum number of tracks to fetch from albums, playlists and shows. This can be overridden per search.
+   */
+  playlistLimit?: number
+  /**
+   * The default request options to use when sending requests to spotify.
+   */
+  requestOptions?: RequestOptions
+  /**
+   * The backoff policy to use between token renewal retries.
+   * @default { base: 15000, factor: 2, maxDelay: 300000, jitter: 0.2 }
+   */
+  backoff: BackoffOptions
+}
+
+export interface SpotifyResolverOptions extends Partial<Omit<CompleteSpotifyResolverOptions, 'backoff'>> {
+  /**
+   * The spotify application's client ID.
+   */
+  clientId: string
+  /**
+   * The spotify application's client secret.
+   */
+  clientSecret: string
+  /**
+   * The backoff policy to use between token renewal retries.
+   */
+  backoff?: Partial<BackoffOptions>
+}
+
+/**
+ * Resolves spotify track, album, playlist, artist, episode and show links into track partials.
+ * Artists resolve into their top tracks, and shows resolve into their episodes.
+ */
+export class SpotifyResolver implements SourceResolver {
+  public readonly name = 'spotify'
+  /**
+   * The resolver's options.
+   */
+  public readonly options: CompleteSpotifyResolverOptions
+  /**
+   * The resolver's spotify token. This is null until the resolver is started and has authorized.
+   */
+  public token: string | null = null
+
+  /**
+   * The manager the resolver was started by.
+   */
+  private manager: LavalinkManager | null = null
+  /**
+   * The timeout to renew the token with.
+   */
+  private renewTimeout: NodeJS.Timeout | null = null
+
+  /**
+   * Create a spotify resolver.
+   * @param options The resolver's options.
+   */
+  constructor (options: SpotifyResolverOptions) {
+    if (!options?.clientId || !options.clientSecret) throw new Error('Spotify auth is not properly defined')
+
+    this.options = {
+      clientId: options.clientId,
+      clientSecret: options.clientSecret,
+      baseUrl: options.baseUrl ?? Constants.SPOTIFY_BASE_URL,
+      tokenUrl: options.tokenUrl ?? Constants.SPOTIFY_TOKEN_ENDPOINT,
+      market: options.market,
+      playlistLimit: options.playlistLimit,
+      requestOptions: options.requestOptions,
+      backoff: {
+        base: options.backoff?.base ?? 15000,
+        factor: options.backoff?.factor ?? 2,
+        maxDelay: options.backoff?.maxDelay ?? 300000,
+        jitter: options.backoff?.jitter ?? 0.2
+      }
+    }
+  }
+
+  public matches (url: string): boolean {
+    return this.token !== null && Constants.SPOTIFY_REGEX.test(url)
+  }
+
+  public async resolve (url: string, requester: string, options: ResolveOptions): Promise<SearchResult | null> {
+    const match = url.match(Constants.SPOTIFY_REGEX)
+    if (!match || !this.token) return null
+    const [, type, id] = match
+
+    const headers = new Headers()
+    headers.set('Authorization', this.token)
+    headers.set('Content-Type', 'application/json')
+
+    if (type === 'track' || type === 'episode') {
+      const res = await this._request(this._url(`/${type}s/${id}`, type === 'episode'), { method: 'GET', headers }, options.signal)
+      if (!res.ok) throw new HTTPError('GET', `/${type}s/${id}`, res.status, res.json)
+      if (!this._playable(res.json)) {
+        return {
+          loadType: 'LOAD_FAILED',
+          tracks: [],
+          exception: {
+            message: `The spotify ${type} is not available`,
+            severity: 'COMMON'
+          }
+        }
+      }
+      return {
+        loadType: 'TRACK_LOADED',
+        tracks: [this._partial(res.json, requester)]
+      }
+    }
+
+    if (type === 'artist') {
+      const artist = await this._request(this._url(`/artists/${id}`), { method: 'GET', headers }, options.signal)
+      if (!artist.ok) throw new HTTPError('GET', `/artists/${id}`, artist.status, artist.json)
+      const res = await this._request(this._url(`/artists/${id}/top-tracks`, true), { method: 'GET', headers }, options.signal)
+      const tracks = (res.json?.tracks ?? []).filter((t) => this._playable(t)).map((t) => this._partial(t, requester))
+      if (!tracks.length) {
+        return {
+          loadType: 'LOAD_FAILED',
+          tracks: [],
+          exception: {
+            message: `No spotify tracks found: HTTP Code ${res.status}`,
+            severity: 'COMMON'
+          }
+        }
+      }
+      return {
+        loadType: 'PLAYLIST_LOADED',
+        tracks,
+        playlistInfo: {
+          name: artist.json?.name ?? 'Top Tracks',
+          selectedTrack: null
+        }
+      }
+    }
+
+    const limit = options.playlistLimit ?? this.options.playlistLimit ?? Infinity
+    const res = await this._request(this._url(`/${type}s/${id}`, type === 'show'), { method: 'GET', headers }, options.signal)
+    const data = res.json
+    const page = type === 'show' ? data?.episodes : data?.tracks
+    const tracks: TrackPartial[] = []
+    // Playlist items wrap their track, and are null or local if the track was removed or uploaded by the playlist's owner.
+    const add: (items: any[]) => void = (items) => tracks.push(...items.map((t) => type === 'playlist' ? (t?.is_local ? null : t?.track) : t).filter((t) => this._playable(t)).map((t) => this._partial(t, requester, data)))
+    add(page?.items ?? [])
+    let next = page?.next
+    while (next && tracks.length < limit) {
+      const nextData = (await this._request(next, { method: 'GET', headers }, options.signal)).json
+      add(nextData?.items ?? [])
+      next = nextData?.next ?? null
+    }
+    if (!tracks.length) {
+      return {
+        loadType: 'LOAD_FAILED',
+        tracks: [],
+        exception: {
+          message: `No spotify tracks found: HTTP Code ${res.status}`,
+          severity: 'COMMON'
+        }
+      }
+    }
+    return {
+      loadType: 'PLAYLIST_LOADED',
+      tracks: tracks.slice(0, limit),
+      playlistInfo: {
+        name: data.name,
+        selectedTrack: null
+      }
+    }
+  }
+
+  public start (manager: LavalinkManager): void {
+    if (this.manager) return
+    this.manager = manager
+    this._renewLoop()
+  }
+
+  public destroy (): void {
+    this.manager = null
+    if (this.renewTimeout) clearTimeout(this.renewTimeout)
+    this.renewTimeout = null
+  }
+
+  /**
+   * Create a track partial from a spotify track or episode object.
+   * @param data The track or episode object.
+   * @param requester The track's requester.
+   * @param parent The album or show the object was fetched from. This is used if the object does not include it's album or show.
+   * @returns The track partial.
+   */
+  private _partial (data: any, requester: string, parent?: any): TrackPartial {
+    if (data.type === 'episode') return new TrackPartialClass(data.name, requester, data.show?.name ?? parent?.name, data.duration_ms, undefined, undefined, data.explicit)
+    return new TrackPartialClass(data.name, requester, data.artists.map((a) => a.name).join(', '), data.duration_ms, data.external_ids?.isrc, data.album?.name ?? parent?.name, data.explicit)
+  }
+
+  /**
+   * Check if a spotify track or episode object can be resolved.
+   * @param data The track or episode object.
+   * @returns If the object is not missing, local, or unplayable in the resolver's market.
+   */
+  private _playable (data: any): boolean {
+    if (!data || data.is_local || data.is_playable === false) return false
+    return data.type === 'episode' || Array.isArray(data.artists)
+  }
+
+  /**
+   * Get the URL of a spotify API route, including the resolver's market.
+   * @param route The route.
+   * @param requireMarket If the route requires a market, defaulting it to 'US'.
+   * @returns The URL.
+   */
+  private _url (route: string, requireMarket: boolean = false): string {
+    const market = this.options.market ?? (requireMarket ? 'US' : undefined)
+    return `${this.options.baseUrl}${route}${market ? `?market=${encodeURIComponent(market)}` : ''}`
+  }
+
+  /**
+   * Make a request to Spotify.
+   * @param url The URL to request.
+   * @param init The request's options. These are merged with the resolver's default request options.
+   * @param signal A signal to abort the request with.
+   * @returns The response's status, and its body parsed as JSON. The body is null if it could not be parsed.
+   */
+  private async _request (url: string, init: RequestInit, signal?: AbortSignal): Promise<{ ok: boolean, status: number, json: any }> {
+    const res = await fetch(url, Object.assign(Object.assign({}, this.options.requestOptions ?? {}), init, {
+      signal: (signal ?? this.options.requestOptions?.signal) as NonNullable<RequestInit['signal']> | undefined
+    }))
+    const text = await res.text()
+    let json: any = null
+    try {
+      json = JSON.parse(text)
+    } catch {}
+    return { ok: res.ok, status: res.status, json }
+  }
+
+  /**
+   * Authorize with Spotify.
+   * @returns The time the token is valid for in milliseconds.
+   */
+  private async _authorize (): Promise<number> {
+    const headers = new Headers()
+    headers.set('Authorization', `Basic ${Buffer.from(`${this.options.clientId}:${this.options.clientSecret}`).toString('base64')}`)
+    headers.set('Content-Type', 'application/x-www-form-urlencoded')
+    const data = (await this._request(this.options.tokenUrl, {
+      method: 'POST',
+      headers,
+      body: 'grant_type=client_credentials'
+    })).json
+    if (!data?.access_token) throw new Error('Invalid Spotify authentication')
+    this.token = `Bearer ${data.access_token as string}`
+    this.manager?.emit('SPOTIFY_AUTHORIZED', { expiresIn: data.expires_in * 1000, token: this.token })
+    return data.expires_in * 1000
+  }
+
+  /**
+   * A helper function to loop renewing spotify tokens. Failed renewals are retried with the resolver's backoff policy.
+   * @param attempt The number of consecutive failed renewals.
+   */
+  private _renewLoop (attempt: number = 0): void {
+    this._authorize().then((time) => {
+      if (this.manager) this.renewTimeout = setTimeout(() => this._renewLoop(), time)
+    }).catch((error) => {
+      if (!this.manager) return
+      this.manager.emit('SPOTIFY_AUTH_ERROR', error)
+      this.renewTimeout = setTimeout(() => this._renewLoop(attempt + 1), Node.backoffDelay(this.options.backoff, attempt + 1))
+    })
+  }
+}
@@ -12,8 +12,11 @@ export class TrackPartial {
    * @param requester The track's requester.
    * @param author The track's author.
    * @param length The track's length in milliseconds.
+   * @param isrc The track's ISRC.
+   * @param album The name of the track's album.
+   * @param explicit If the track is explicit.
    */
-  constructor (public readonly title: string, public readonly requester: string, public readonly author?: string, public readonly length?: number) {}
+  constructor (public readonly title: string, public readonly requester: string, public readonly author?: string, public readonly length?: number, public readonly isrc?: string | null, public readonly album?: string, public readonly explicit?: boolean) {}
 }
 
 export class Track {
@@ -57,6 +60,10 @@ export class Track {
    * The name of the track's source.
    */
   public readonly sourceName: string
+  /**
+   * The track's ISRC. This is only provided by v4 servers, and only for some sources.
+   */
+  public readonly isrc?: string | null
 
   /**
    * Create a new track.
@@ -0,0 +1,248 @@
+import { Track, TrackPartial } from '../typings/lib'
+
+export interface TrackMatcherOptions {
+  /**
+   * The minimum score a result needs to be chosen. If no result reaches this score, resolving fails.
+   * @default 0
+   */
+  minScore: number
+  /**
+   * The score an ISRC search result needs to be chosen without also searching by title.
+   * Scores include the ISRC bonus, so a result with a matching ISRC can reach this score with a weaker title, author and duration match.
+   * @default 0.85
+   */
+  acceptScore: number
+  /**
+   * If track partials with an ISRC should be searched by their ISRC before their title.
+   * @default true
+   */
+  isrcSearch: boolean
+  /**
+   * The score added to results with the same ISRC as the track partial. This can push a result over the accept score.
+   * @default 0.25
+   */
+  isrcBonus: number
+  /**
+   * The title score a result from an ISRC search needs to receive the ISRC bonus when the lavalink server doesn't report it's ISRC.
+   * This stops unrelated results, which searches can return when nothing matches the ISRC, from being chosen without a title search.
+   * @default 0.8
+   */
+  isrcMinTitleScore: number
+  /**
+   * The duration difference in milliseconds at which a result's duration score reaches 0.
+   * @default 15000
+   */
+  durationTolerance: number
+  /**
+   * Keywords that are penalized when they appear in a result's title, but not in the track partial's title.
+   * @default ['live', 'cover', 'remix', 'karaoke', 'instrumental', 'acoustic', 'nightcore', 'sped up', 'slowed', 'reverb', '8d', 'lyrics', 'lyric video', 'hour', 'hours', 'loop', 'reaction']
+   */
+  penaltyKeywords: string[]
+  /**
+   * The score subtracted for each penalized keyword.
+   * @default 0.15
+   */
+  keywordPenalty: number
+  /**
+   * How much the title, author and duration scores contribute to a result's score. These are normalized to add up to 1.
+   * @default { title: 0.45, author: 0.3, duration: 0.25 }
+   */
+  weights: {
+    title: number
+    author: number
+    duration: number
+  }
+}
+
+/**
+ * A breakdown of how well a track matches a track partial.
+ * The title, author and duration scores are between 0 and 1, with 1 being an exact match.
+ */
+export interface TrackMatchScore {
+  /**
+   * The total score, between 0 and 1.
+   */
+  total: number
+  /**
+   * The similarity of the titles.
+   */
+  title: number
+  /**
+   * The similarity of the authors. This is null if the track partial has no author.
+   */
+  author: number | null
+  /**
+   * The closeness of the durations. This is null if the track partial has no length.
+   */
+  duration: number | null
+  /**
+   * The added ISRC bonus.
+   */
+  isrc: number
+  /**
+   * The penalized keywords found in the track's title.
+   */
+  keywords: string[]
+  /**
+   * The total subtracted keyword penalty.
+   */
+  penalty: number
+}
+
+/**
+ * Phrases commonly added to video titles that don't describe the track.
+ */
+const TITLE_NOISE = /\b(?:official\s*(?:music\s*)?(?:video|audio|visuali[sz]er)|music\s*video|audio|visuali[sz]er|hd|hq|4k|mv|m\/v)\b/g
+
+/**
+ * Phrases commonly added to channel names that don't describe the artist.
+ */
+const CHANNEL_NOISE = /(?:\s*-\s*topic|vevo|\s+official|\s+music)$/
+
+/**
+ * Scores how well tracks match track partials.
+ */
+export class TrackMatcher {
+  /**
+   * The matcher's options.
+   */
+  public readonly options: TrackMatcherOptions
+
+  /**
+   * Create a track matcher.
+   * @param options The matcher's options.
+   */
+  constructor (options: Partial<TrackMatcherOptions> = {}) {
+    this.options = {
+      minScore: options.minScore ?? 0,
+      acceptScore: options.acceptScore ?? 0.85,
+      isrcSearch: options.isrcSearch ?? true,
+      isrcBonus: options.isrcBonus ?? 0.25,
+      isrcMinTitleScore: options.isrcMinTitleScore ?? 0.8,
+      durationTolerance: options.durationTolerance ?? 15000,
+      penaltyKeywords: options.penaltyKeywords ?? ['live', 'cover', 'remix', 'karaoke', 'instrumental', 'acoustic', 'nightcore', 'sped up', 'slowed', 'reverb', '8d', 'lyrics', 'lyric video', 'hour', 'hours', 'loop', 'reaction'],
+      keywordPenalty: options.keywordPenalty ?? 0.15,
+      weights: {
+        title: options.weights?.title ?? 0.45,
+        author: options.weights?.author ?? 0.3,
+        duration: options.weights?.duration ?? 0.25
+      }
+    }
+  }
+
+  /**
+   * Normalize text for comparison, by lowercasing it, removing diacritics and replacing punctuation with spaces.
+   * @param text The text to normalize.
+   * @returns The normalized text.
+   */
+  public static normalize (text: string): string {
+    return text
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/&/g, ' and ')
+      .replace(/[^\p{L}\p{N}]+/gu, ' ')
+      .trim()
+  }
+
+  /**
+   * Normalize a channel name, removing suffixes such as " - Topic" and "VEVO".
+   * @param name The channel name.
+   * @returns The normalized name.
+   */
+  public static normalizeChannel (name: string): string {
+    return TrackMatcher.normalize(name.trim().toLowerCase().replace(CHANNEL_NOISE, ''))
+  }
+
+  /**
+   * Get the similarity of two strings, using the Sørensen–Dice coefficient of their character bigrams.
+   * @param a The first string.
+   * @param b The second string.
+   * @returns The similarity, between 0 and 1.
+   */
+  public static similarity (a: string, b: string): number {
+    a = a.replace(/\s+/g, '')
+    b = b.replace(/\s+/g, '')
+    if (a === b) return 1
+    if (a.length < 2 || b.length < 2) return 0
+
+    const bigrams: Map<string, number> = new Map()
+    for (let i = 0; i < a.length - 1; i++) {
+      const bigram = a.slice(i, i + 2)
+      bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1)
+    }
+    let matches = 0
+    for (let i = 0; i < b.length - 1; i++) {
+      const bigram = b.slice(i, i + 2)
+      const count = bigrams.get(bigram) ?? 0
+      if (count > 0) {
+        bigrams.set(bigram, count - 1)
+        matches++
+      }
+    }
+    return (2 * matches) / (a.length + b.length - 2)
+  }
+
+  /**
+   * Score how well a track matches a track partial.
+   * @param partial The track partial.
+   * @param track The track.
+   * @param fromIsrc If the track was found by searching the partial's ISRC.
+   * @returns The score.
+   */
+  public score (partial: TrackPartial, track: Track, fromIsrc: boolean = false): TrackMatchScore {
+    const artists = (partial.author ?? '').split(/,\s*/).map((artist) => TrackMatcher.normalizeChannel(artist)).filter((artist) => artist.length)
+    const channel = TrackMatcher.normalizeChannel(track.author ?? '')
+    const partialTitle = this._cleanTitle(partial.title)
+    let trackTitle = this._cleanTitle(track.title ?? '')
+    // Video titles are often formatted as "Artist - Title", so the artists are removed before comparing titles.
+    for (const artist of artists) trackTitle = trackTitle.replace(new RegExp(`(?:^|\\s)${artist.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?=\\s|$)`, 'g'), ' ').trim()
+
+    const title = Math.max(TrackMatcher.similarity(partialTitle, trackTitle), TrackMatcher.similarity(partialTitle, this._cleanTitle(track.title ?? '')))
+    const author = artists.length
+      ? Math.max(...artists.map((artist) => channel.length && (channel.includes(artist) || artist.includes(channel)) ? 1 : TrackMatcher.normalize(track.title ?? '').includes(artist) ? 0.8 : TrackMatcher.similarity(artist, channel)))
+      : null
+    const duration = partial.length && track.length ? Math.max(0, 1 - Math.abs(partial.length - track.length) / this.options.durationTolerance) : null
+
+    const normalizedPartialTitle = ` ${TrackMatcher.normalize(partial.title)} `
+    const normalizedTrackTitle = ` ${TrackMatcher.normalize(track.title ?? '')} `
+    const keywords = this.options.penaltyKeywords.filter((keyword) => {
+      const normalized = ` ${TrackMatcher.normalize(keyword)} `
+      return normalizedTrackTitle.includes(normalized) && !normalizedPartialTitle.includes(normalized)
+    })
+    const penalty = keywords.length * this.options.keywordPenalty
+    const isrc = !partial.isrc
+      ? 0
+      : track.isrc
+        ? track.isrc === partial.isrc ? this.options.isrcBonus : 0
+        : fromIsrc && title >= this.options.isrcMinTitleScore ? this.options.isrcBonus : 0
+
+    const parts: Array<[number, number]> = [[title, this.options.weights.title]]
+    if (author !== null) parts.push([author, this.options.weights.author])
+    if (duration !== null) parts.push([duration, this.options.weights.duration])
+    const weight = parts.reduce((p, [, w]) => p + w, 0)
+    const weighted = weight > 0 ? parts.reduce((p, [score, w]) => p + score * w, 0) / weight : 0
+
+    return {
+      total: Math.min(1, Math.max(0, weighted + isrc - penalty)),
+      title,
+      author,
+      duration,
+      isrc,
+      keywords,
+      penalty
+    }
+  }
+
+  /**
+   * Normalize a title and remove noise such as "(Official Video)" and featured artists.
+   * @param title The title.
+   * @returns The cleaned title.
+   */
+  private _cleanTitle (title: string): string {
+    return TrackMatcher.normalize(title.replace(/[([](?:feat|ft)\.?\s[^)\]]*[)\]]|\s(?:feat|ft)\.?\s.*$/gi, ''))
+      .replace(TITLE_NOISE, ' ')
+      .replace(/\s+/g, ' ')
+      .trim()
+  }
+}
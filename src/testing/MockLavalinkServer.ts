@@ -0,0 +1,729 @@
+import { Filters, LavalinkException, LoadTracksResult, NodeInfo, NodeStats, OutboundPayload, PlayerData, PlayerUpdateData, TrackData, V4TrackData } from '../typings/Lavalink'
+
+import { EventEmitter } from '@jpbberry/typed-emitter'
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http'
+import { AddressInfo, Socket } from 'net'
+import { URL } from 'url'
+import WebSocket from 'ws'
+
+export interface MockLavalinkServerOptions {
+  /**
+   * The port to listen on. 0 uses a random available port.
+   * @default 0
+   */
+  port: number
+  /**
+   * The password clients must authorize with.
+   * @default 'youshallnotpass'
+   */
+  password: string
+  /**
+   * The major version of the lavalink protocol to implement.
+   * @default 4
+   */
+  version: 3 | 4
+  /**
+   * Load results served by the loadtracks endpoints, keyed by identifier. Unknown identifiers are served as no matches.
+   * Tracks in the fixtures are also served by the decodetracks endpoints.
+   * @default {}
+   */
+  fixtures: { [identifier: string]: LoadTracksResult }
+  /**
+   * The interval in milliseconds between stats broadcasts. Stats are also sent when a client connects.
+   * @default 60000
+   */
+  statsInterval: number
+  /**
+   * The interval in milliseconds between player updates sent for each connected player.
+   * @default 5000
+   */
+  playerUpdateInterval: number
+  /**
+   * The source managers reported by the info endpoint.
+   * @default ['youtube', 'soundcloud', 'bandcamp', 'twitch', 'vimeo', 'http', 'local']
+   */
+  sourceManagers: string[]
+  /**
+   * The filters reported by the info endpoint.
+   * @default ['volume', 'equalizer', 'karaoke', 'timescale', 'tremolo', 'vibrato', 'distortion', 'rotation', 'channelMix', 'lowPass']
+   */
+  filters: string[]
+}
+
+export interface MockLavalinkServerEvents {
+  /**
+   * Emitted when a client connects.
+   */
+  CONNECTION: { sessionId: string, resumed: boolean, headers: IncomingMessage['headers'] }
+  /**
+   * Emitted when a client disconnects.
+   */
+  DISCONNECTION: { sessionId: string, code: number }
+  /**
+   * Emitted when a websocket payload is received from a client.
+   */
+  PAYLOAD: { sessionId: string, payload: OutboundPayload }
+  /**
+   * Emitted when a REST request is received.
+   */
+  REQUEST: { method: string, path: string, query: URLSearchParams, body: any }
+}
+
+/**
+ * A player on the mock server.
+ */
+interface MockPlayer {
+  guildId: string
+  track: TrackData | null
+  endTime: number | null
+  paused: boolean
+  volume: number
+  filters: Filters
+  voice: NonNullable<PlayerUpdateData['voice']> | null
+  /**
+   * The track position at MockPlayer#updatedAt.
+   */
+  position: number
+  updatedAt: number
+  endTimeout: NodeJS.Timeout | null
+}
+
+/**
+ * A client session on the mock server.
+ */
+interface MockSession {
+  id: string
+  ws: WebSocket | null
+  players: Map<string, MockPlayer>
+  resumeKey: string | null
+  resumeTimeout: number
+  resuming: boolean
+  expireTimeout: NodeJS.Timeout | null
+}
+
+/**
+ * A scripted request failure.
+ */
+interface MockFailure {
+  method: string | null
+  path: string | RegExp
+  status: number
+  body: any
+  remaining: number
+}
+
+/**
+ * Track end reasons in the v4 format, keyed by their v3 format.
+ */
+const V4_END_REASONS = {
+  FINISHED: 'finished',
+  LOAD_FAILED: 'loadFailed',
+  STOPPED: 'stopped',
+  REPLACED: 'replaced',
+  CLEANUP: 'cleanup'
+}
+
+/**
+ * An in-process lavalink server for testing managers, nodes and players offline.
+ * The server implements the websocket handshake, session resuming, stats broadcasts, player update ticks, track start and end events, and the REST endpoints used by this package.
+ * Tracks end after their length has elapsed, so fixtures with short lengths can be used to test queue flows.
+ */
+export class MockLavalinkServer extends EventEmitter<MockLavalinkServerEvents> {
+  /**
+   * The server's options.
+   */
+  public readonly options: MockLavalinkServerOptions
+  /**
+   * Payloads received from clients.
+   */
+  public received: OutboundPayload[] = []
+  /**
+   * The server's stats. These are sent with every stats broadcast, with players and playingPlayers set from the server's players.
+   */
+  public stats: Omit<NodeStats, 'players' | 'playingPlayers'> = {
+    uptime: 0,
+    memory: { free: 100000000, used: 50000000, allocated: 150000000, reservable: 500000000 },
+    cpu: { cores: 4, systemLoad: 0.1, lavalinkLoad: 0.05 },
+    frameStats: { sent: 3000, nulled: 0, deficit: 0 }
+  }
+
+  /**
+   * If the server is closing. Sessions are not kept for resuming while closing.
+   */
+  private closing: boolean = false
+  /**
+   * Scripted request failures.
+   */
+  private readonly failures: MockFailure[] = []
+  /**
+   * The HTTP server.
+   */
+  private readonly http: Server
+  /**
+   * Used for sending player updates.
+   */
+  private playerUpdateInterval: NodeJS.Timeout | null = null
+  /**
+   * If upgrade requests are resuming a session, used to set the v3 Session-Resumed header.
+   */
+  private readonly resumedUpgrades: WeakMap<IncomingMessage, boolean> = new WeakMap()
+  /**
+   * Incremented to create session IDs.
+   */
+  private sessionCount: number = 0
+  /**
+   * Client sessions, keyed by session ID.
+   */
+  private readonly sessions: Map<string, MockSession> = new Map()
+  /**
+   * Open HTTP connections, destroyed when the server closes.
+   */
+  private readonly sockets: Set<Socket> = new Set()
+  /**
+   * The time the server started listening.
+   */
+  private startedAt: number = Date.now()
+  /**
+   * Used for broadcasting stats.
+   */
+  private statsInterval: NodeJS.Timeout | null = null
+  /**
+   * The websocket server.
+   */
+  private readonly wss: WebSocket.Server
+
+  /**
+   * Create a mock lavalink server.
+   * @param options The server's options.
+   */
+  constructor (options: Partial<MockLavalinkServerOptions> = {}) {
+    super()
+
+    this.options = {
+      port: options.port ?? 0,
+      password: options.password ?? 'youshallnotpass',
+      version: options.version ?? 4,
+      fixtures: options.fixtures ?? {},
+      statsInterval: options.statsInterval ?? 60000,
+      playerUpdateInterval: options.playerUpdateInterval ?? 5000,
+      sourceManagers: options.sourceManagers ?? ['youtube', 'soundcloud', 'bandcamp', 'twitch', 'vimeo', 'http', 'local'],
+      filters: options.filters ?? ['volume', 'equalizer', 'karaoke', 'timescale', 'tremolo', 'vibrato', 'distortion', 'rotation', 'channelMix', 'lowPass']
+    }
+
+    this.http = createServer((req, res) => void this._handleRequest(req, res))
+    this.wss = new WebSocket.Server({ noServer: true })
+    this.wss.on('headers', (headers, req) => {
+      if (this.options.version === 3 && this.resumedUpgrades.get(req)) headers.push('Session-Resumed: true')
+    })
+    this.http.on('upgrade', (req, socket, head) => this._handleUpgrade(req, socket, head))
+    this.http.on('connection', (socket: Socket) => {
+      this.sockets.add(socket)
+      socket.once('close', () => this.sockets.delete(socket))
+    })
+  }
+
+  /**
+   * The port the server is listening on. This is null if the server isn't listening.
+   */
+  public get port (): number | null {
+    return (this.http.address() as AddressInfo | null)?.port ?? null
+  }
+
+  /**
+   * Node options for connecting to the server.
+   */
+  public get nodeOptions (): { host: string, port: number, password: string } {
+    return { host: 'localhost', port: this.port ?? this.options.port, password: this.options.password }
+  }
+
+  /**
+   * Start listening.
+   * @returns The port the server is listening on.
+   */
+  public async listen (): Promise<number> {
+    this.closing = false
+    await new Promise((resolve) => this.http.listen(this.options.port, () => resolve(undefined)))
+    this.startedAt = Date.now()
+    this.statsInterval = setInterval(() => this.sessions.forEach((session) => this._sendStats(session)), this.options.statsInterval)
+    this.playerUpdateInterval = setInterval(() => this.sessions.forEach((session) => session.players.forEach((player) => this._sendPlayerUpdate(session, player))), this.options.playerUpdateInterval)
+    return this.port as number
+  }
+
+  /**
+   * Stop the server, closing all client connections.
+   */
+  public async close (): Promise<void> {
+    this.closing = true
+    if (this.statsInterval) clearInterval(this.statsInterval)
+    if (this.playerUpdateInterval) clearInterval(this.playerUpdateInterval)
+    this.statsInterval = null
+    this.playerUpdateInterval = null
+    this.sessions.forEach((session) => this._destroySession(session))
+    this.wss.clients.forEach((ws) => ws.terminate())
+    await new Promise((resolve) => this.wss.close(() => resolve(undefined)))
+    // Keep-alive connections would otherwise keep the server open until they time out.
+    this.sockets.forEach((socket) => socket.destroy())
+    if (this.http.listening) await new Promise((resolve) => this.http.close(() => resolve(undefined)))
+  }
+
+  /**
+   * Close all client connections. Sessions with resuming enabled can be resumed until their resume timeout elapses.
+   * @param code The close code.
+   * @param reason The close reason.
+   */
+  public disconnectAll (code: number = 1001, reason: string = 'Going away'): void {
+    this.wss.clients.forEach((ws) => ws.close(code, reason))
+  }
+
+  /**
+   * Make requests fail with a status code.
+   * @param path The path to fail, for example '/v4/loadtracks'. A regular expression can be specified to match multiple paths.
+   * @param status The status code to respond with.
+   * @param times The number of requests to fail.
+   * @param method The method to fail. If not specified, requests with any method fail.
+   * @param body The response's body.
+   */
+  public failRequests (path: string | RegExp, status: number, times: number = 1, method: string | null = null, body: any = { message: 'Mock failure' }): void {
+    this.failures.push({ method, path, status, body, remaining: times })
+  }
+
+  /**
+   * Get a player on the server.
+   * @param guildId The player's guild ID.
+   * @returns The player's data, or null if no player exists for the guild.
+   */
+  public getPlayer (guildId: string): PlayerData | null {
+    for (const session of this.sessions.values()) {
+      const player = session.players.get(guildId)
+      if (player) return this._playerData(player)
+    }
+    return null
+  }
+
+  /**
+   * Send an event payload to the client owning a guild's player.
+   * @param guildId The player's guild ID.
+   * @param event The event's data, excluding the op and guild ID.
+   */
+  public sendEvent (guildId: string, event: { type: 'TrackExceptionEvent', exception: LavalinkException } | { type: 'TrackStuckEvent', thresholdMs: number } | { type: 'WebSocketClosedEvent', code: number, reason: string, byRemote: boolean }): void {
+    for (const session of this.sessions.values()) {
+      const player = session.players.get(guildId)
+      if (!player) continue
+      const payload: any = Object.assign({ op: 'event', guildId }, event)
+      if (event.type !== 'WebSocketClosedEvent') payload.track = player.track ? this._encodeTrack(player.track) : null
+      this._send(session, payload)
+      if (event.type === 'TrackExceptionEvent' && player.track) this._endTrack(session, player, 'LOAD_FAILED')
+    }
+  }
+
+  /**
+   * Handle a websocket upgrade request.
+   * @param req The request.
+   * @param socket The request's socket.
+   * @param head The first packet of the upgraded stream.
+   */
+  private _handleUpgrade (req: IncomingMessage, socket: any, head: Buffer): void {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname
+    if (path !== (this.options.version === 4 ? '/v4/websocket' : '/') || req.headers.authorization !== this.options.password || !req.headers['user-id']) {
+      socket.write(`HTTP/1.1 ${path === (this.options.version === 4 ? '/v4/websocket' : '/') ? '401 Unauthorized' : '404 Not Found'}\r\n\r\n`)
+      return socket.destroy()
+    }
+
+    let session: MockSession | undefined
+    const sessionIdHeader = req.headers['session-id'] as string | undefined
+    const resumeKeyHeader = req.headers['resume-key'] as string | undefined
+    if (this.options.version === 4 && sessionIdHeader) session = this.sessions.get(sessionIdHeader)
+    else if (this.options.version === 3 && resumeKeyHeader) session = [...this.sessions.values()].find((s) => s.resumeKey === resumeKeyHeader)
+    const resumed = !!session?.resuming && !session.ws
+    this.resumedUpgrades.set(req, resumed)
+
+    this.wss.handleUpgrade(req, socket, head, (ws) => {
+      if (resumed && session) {
+        if (session.expireTimeout) clearTimeout(session.expireTimeout)
+        session.expireTimeout = null
+      } else {
+        session = { id: `mock-${++this.sessionCount}`, ws: null, players: new Map(), resumeKey: null, resumeTimeout: 60, resuming: false, expireTimeout: null }
+        this.sessions.set(session.id, session)
+      }
+      const current: MockSession = session
+      current.ws = ws
+
+      ws.on('message', (data: Buffer) => this._handleMessage(current, data.toString()))
+      ws.on('close', (code) => {
+        if (current.ws !== ws) return
+        current.ws = null
+        this.emit('DISCONNECTION', { sessionId: current.id, code })
+        if (current.resuming && !this.closing) current.expireTimeout = setTimeout(() => this._destroySession(current), current.resumeTimeout * 1000)
+        else this._destroySession(current)
+      })
+
+      this.emit('CONNECTION', { sessionId: current.id, resumed, headers: req.headers })
+      if (this.options.version === 4) this._send(current, { op: 'ready', resumed, sessionId: current.id })
+      this._sendStats(current)
+    })
+  }
+
+  /**
+   * Handle a websocket message.
+   * @param session The session the message was received on.
+   * @param data The message's data.
+   */
+  private _handleMessage (session: MockSession, data: string): void {
+    let payload: OutboundPayload
+    try {
+      payload = JSON.parse(data)
+    } catch {
+      return
+    }
+    this.received.push(payload)
+    this.emit('PAYLOAD', { sessionId: session.id, payload })
+
+    switch (payload.op) {
+      case 'configureResuming':
+        session.resumeKey = payload.key
+        session.resumeTimeout = payload.timeout
+        session.resuming = true
+        break
+      case 'voiceUpdate':
+        this._updatePlayer(session, payload.guildId, { voice: { token: payload.event.token, endpoint: payload.event.endpoint, sessionId: payload.sessionId } }, false)
+        break
+      case 'play':
+        this._updatePlayer(session, payload.guildId, { encodedTrack: payload.track, position: payload.startTime, endTime: payload.endTime, volume: payload.volume, paused: payload.pause }, payload.noReplace ?? false)
+        break
+      case 'stop':
+        this._updatePlayer(session, payload.guildId, { encodedTrack: null }, false)
+        break
+      case 'pause':
+        this._updatePlayer(session, payload.guildId, { paused: payload.pause }, false)
+        break
+      case 'seek':
+        this._updatePlayer(session, payload.guildId, { position: payload.position }, false)
+        break
+      case 'volume':
+        this._updatePlayer(session, payload.guildId, { volume: payload.volume }, false)
+        break
+      case 'filters': {
+        const { op, guildId, ...filters } = payload
+        this._updatePlayer(session, guildId, { filters }, false)
+        break
+      }
+      case 'destroy':
+        this._destroyPlayer(session, payload.guildId)
+        break
+    }
+  }
+
+  /**
+   * Handle a REST request.
+   * @param req The request.
+   * @param res The response.
+   */
+  private async _handleRequest (req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost')
+    const method = req.method ?? 'GET'
+    const text = await new Promise<string>((resolve) => {
+      const chunks: Buffer[] = []
+      req.on('data', (chunk: Buffer) => chunks.push(chunk))
+      req.on('end', () => resolve(Buffer.concat(chunks).toString()))
+    })
+    let body: any = null
+    try {
+      body = text.length ? JSON.parse(text) : null
+    } catch {}
+    this.emit('REQUEST', { method, path: url.pathname, query: url.searchParams, body })
+
+    const reply = (status: number, data?: any): void => {
+      if (data === undefined) {
+        res.writeHead(status)
+        return void res.end()
+      }
+      if (typeof data === 'string') res.writeHead(status, { 'Content-Type': 'text/plain' })
+      else res.writeHead(status, { 'Content-Type': 'application/json' })
+      res.end(typeof data === 'string' ? data : JSON.stringify(data))
+    }
+
+    if (req.headers.authorization !== this.options.password) return reply(401, { status: 401, error: 'Unauthorized', message: 'Unauthorized', path: url.pathname })
+
+    const failure = this.failures.find((f) => (f.method === null || f.method === method) && (typeof f.path === 'string' ? f.path === url.pathname : f.path.test(url.pathname)))
+    if (failure) {
+      if (--failure.remaining <= 0) this.failures.splice(this.failures.indexOf(failure), 1)
+      return reply(failure.status, failure.body)
+    }
+
+    const v4 = this.options.version === 4
+    const path = v4 ? url.pathname.replace(/^\/v4/, '') : url.pathname
+
+    if (method === 'GET' && url.pathname === '/version') return reply(200, `${this.options.version}.0.0`)
+    if (method === 'GET' && url.pathname === (v4 ? '/v4/info' : '/v3/info')) return reply(200, this._info())
+    if (v4 !== url.pathname.startsWith('/v4/') && url.pathname !== '/version') return reply(404, { status: 404, error: 'Not Found', message: 'Not Found', path: url.pathname })
+
+    if (method === 'GET' && path === '/loadtracks') return reply(200, this._loadTracks(url.searchParams.get('identifier') ?? ''))
+    if (method === 'POST' && path === '/decodetracks') {
+      if (!Array.isArray(body)) return reply(400, { status: 400, error: 'Bad Request', message: 'Expected an array of tracks', path: url.pathname })
+      const tracks = body.map((track: string) => this._findTrack(track))
+      if (tracks.some((track) => !track)) return reply(400, { status: 400, error: 'Bad Request', message: 'Unknown track', path: url.pathname })
+      return reply(200, tracks.map((track: TrackData) => v4 ? this._encodeTrack(track) : track))
+    }
+    if (method === 'GET' && path === '/routeplanner/status') return reply(204)
+    if (method === 'POST' && (path === '/routeplanner/free/address' || path === '/routeplanner/free/all')) return reply(500, { status: 500, error: 'Internal Server Error', message: 'Can\'t access disabled route planner', path: url.pathname })
+
+    if (v4) {
+      const match = path.match(/^\/sessions\/([^/]+)(?:\/players(?:\/([^/]+))?)?$/)
+      const session = match ? this.sessions.get(match[1]) : undefined
+      if (match && !session) return reply(404, { status: 404, error: 'Not Found', message: 'Session not found', path: url.pathname })
+      if (match && session) {
+        const guildId = match[2]
+        if (!path.includes('/players')) {
+          if (method !== 'PATCH') return reply(405)
+          if (typeof body?.resuming === 'boolean') session.resuming = body.resuming
+          if (typeof body?.timeout === 'number') session.resumeTimeout = body.timeout
+          return reply(200, { resuming: session.resuming, timeout: session.resumeTimeout })
+        }
+        if (!guildId) return reply(200, [...session.players.values()].map((player) => this._playerData(player)))
+        if (method === 'GET') {
+          const player = session.players.get(guildId)
+          return player ? reply(200, this._playerData(player)) : reply(404, { status: 404, error: 'Not Found', message: 'Player not found', path: url.pathname })
+        }
+        if (method === 'PATCH') {
+          if (typeof body?.encodedTrack === 'string' && !this._findTrack(body.encodedTrack)) return reply(400, { status: 400, error: 'Bad Request', message: 'Unknown track', path: url.pathname })
+          const player = this._updatePlayer(session, guildId, body ?? {}, url.searchParams.get('noReplace') === 'true')
+          return reply(200, this._playerData(player))
+        }
+        if (method === 'DELETE') {
+          this._destroyPlayer(session, guildId)
+          return reply(204)
+        }
+      }
+    }
+
+    reply(404, { status: 404, error: 'Not Found', message: 'Not Found', path: url.pathname })
+  }
+
+  /**
+   * Update a player, creating it if it doesn't exist.
+   * @param session The player's session.
+   * @param guildId The player's guild ID.
+   * @param data The data to update the player with.
+   * @param noReplace If the current track should not be replaced.
+   * @returns The updated player.
+   */
+  private _updatePlayer (session: MockSession, guildId: string, data: PlayerUpdateData, noReplace: boolean): MockPlayer {
+    let player = session.players.get(guildId)
+    if (!player) {
+      player = { guildId, track: null, endTime: null, paused: false, volume: 100, filters: {}, voice: null, position: 0, updatedAt: Date.now(), endTimeout: null }
+      session.players.set(guildId, player)
+    }
+
+    if (data.voice) player.voice = data.voice
+    if (typeof data.volume === 'number') player.volume = data.volume
+    if (data.filters) player.filters = data.filters
+    if (typeof data.paused === 'boolean' && data.paused !== player.paused) {
+      player.position = this._position(player)
+      player.updatedAt = Date.now()
+      player.paused = data.paused
+    }
+
+    if (data.encodedTrack === null) {
+      if (player.track) this._endTrack(session, player, 'STOPPED')
+    } else if (typeof data.encodedTrack === 'string' && !(noReplace && player.track)) {
+      const track = this._findTrack(data.encodedTrack)
+      if (track) {
+        if (player.track) this._endTrack(session, player, 'REPLACED')
+        player.track = track
+        player.endTime = data.endTime ?? null
+        player.position = data.position ?? 0
+        player.updatedAt = Date.now()
+        this._send(session, { op: 'event', type: 'TrackStartEvent', guildId, track: this._eventTrack(track) })
+      }
+    } else if (typeof data.position === 'number' && player.track) {
+      player.position = data.position
+      player.updatedAt = Date.now()
+    }
+
+    this._scheduleEnd(session, player)
+    return player
+  }
+
+  /**
+   * Destroy a player.
+   * @param session The player's session.
+   * @param guildId The player's guild ID.
+   */
+  private _destroyPlayer (session: MockSession, guildId: string): void {
+    const player = session.players.get(guildId)
+    if (!player) return
+    if (player.endTimeout) clearTimeout(player.endTimeout)
+    session.players.delete(guildId)
+  }
+
+  /**
+   * Destroy a session and it's players.
+   * @param session The session to destroy.
+   */
+  private _destroySession (session: MockSession): void {
+    if (session.expireTimeout) clearTimeout(session.expireTimeout)
+    session.players.forEach((player) => this._destroyPlayer(session, player.guildId))
+    this.sessions.delete(session.id)
+  }
+
+  /**
+   * Schedule a player's track to end when it's length or end time is reached.
+   * @param session The player's session.
+   * @param player The player.
+   */
+  private _scheduleEnd (session: MockSession, player: MockPlayer): void {
+    if (player.endTimeout) clearTimeout(player.endTimeout)
+    player.endTimeout = null
+    if (!player.track || player.track.info.isStream || player.paused) return
+    const end = player.endTime ?? player.track.info.length
+    player.endTimeout = setTimeout(() => this._endTrack(session, player, 'FINISHED'), Math.max(end - this._position(player), 0))
+  }
+
+  /**
+   * End a player's track.
+   * @param session The player's session.
+   * @param player The player.
+   * @param reason The reason the track ended.
+   */
+  private _endTrack (session: MockSession, player: MockPlayer, reason: keyof typeof V4_END_REASONS): void {
+    if (!player.track) return
+    if (player.endTimeout) clearTimeout(player.endTimeout)
+    player.endTimeout = null
+    const track = player.track
+    player.track = null
+    player.position = 0
+    player.updatedAt = Date.now()
+    this._send(session, { op: 'event', type: 'TrackEndEvent', guildId: player.guildId, track: this._eventTrack(track), reason: this.options.version === 4 ? V4_END_REASONS[reason] : reason })
+  }
+
+  /**
+   * Get a player's current position.
+   * @param player The player.
+   * @returns The position in milliseconds.
+   */
+  private _position (player: MockPlayer): number {
+    if (!player.track) return 0
+    return player.paused ? player.position : player.position + (Date.now() - player.updatedAt)
+  }
+
+  /**
+   * Get a player's data in the v4 format.
+   * @param player The player.
+   * @returns The player's data.
+   */
+  private _playerData (player: MockPlayer): PlayerData {
+    return {
+      guildId: player.guildId,
+      track: player.track ? this._encodeTrack(player.track) : null,
+      volume: player.volume,
+      paused: player.paused,
+      state: { time: Date.now(), position: this._position(player), connected: !!player.voice, ping: player.voice ? 0 : -1 },
+      voice: player.voice ?? { token: '', endpoint: '', sessionId: '' },
+      filters: player.filters
+    }
+  }
+
+  /**
+   * Send a player update payload.
+   * @param session The player's session.
+   * @param player The player.
+   */
+  private _sendPlayerUpdate (session: MockSession, player: MockPlayer): void {
+    if (!player.voice) return
+    this._send(session, { op: 'playerUpdate', guildId: player.guildId, state: { time: Date.now(), position: this._position(player), connected: true, ping: 0 } })
+  }
+
+  /**
+   * Send a stats payload.
+   * @param session The session to send the payload to.
+   */
+  private _sendStats (session: MockSession): void {
+    const players = [...this.sessions.values()].reduce<MockPlayer[]>((p, s) => p.concat([...s.players.values()]), [])
+    this._send(session, Object.assign({ op: 'stats' }, this.stats, {
+      uptime: Date.now() - this.startedAt,
+      players: players.length,
+      playingPlayers: players.filter((player) => player.track && !player.paused).length
+    }))
+  }
+
+  /**
+   * Send a payload to a session's client.
+   * @param session The session.
+   * @param payload The payload to send.
+   */
+  private _send (session: MockSession, payload: any): void {
+    if (session.ws?.readyState === WebSocket.OPEN) session.ws.send(JSON.stringify(payload))
+  }
+
+  /**
+   * Load tracks from the fixtures.
+   * @param identifier The identifier to load.
+   * @returns The load result, in the format of the server's version.
+   */
+  private _loadTracks (identifier: string): any {
+    const result: LoadTracksResult = this.options.fixtures[identifier] ?? { loadType: 'NO_MATCHES', tracks: [] }
+    if (this.options.version === 3) {
+      return {
+        loadType: result.loadType,
+        tracks: result.tracks,
+        playlistInfo: result.playlistInfo ? { name: result.playlistInfo.name, selectedTrack: result.playlistInfo.selectedTrack ?? -1 } : {},
+        exception: result.exception
+      }
+    }
+    switch (result.loadType) {
+      case 'TRACK_LOADED': return { loadType: 'track', data: this._encodeTrack(result.tracks[0]) }
+      case 'PLAYLIST_LOADED': return { loadType: 'playlist', data: { info: { name: result.playlistInfo?.name ?? '', selectedTrack: result.playlistInfo?.selectedTrack ?? -1 }, pluginInfo: {}, tracks: result.tracks.map((track) => this._encodeTrack(track)) } }
+      case 'SEARCH_RESULT': return { loadType: 'search', data: result.tracks.map((track) => this._encodeTrack(track)) }
+      case 'NO_MATCHES': return { loadType: 'empty', data: {} }
+      case 'LOAD_FAILED': return { loadType: 'error', data: result.exception ?? { message: 'Mock load failure', severity: 'COMMON', cause: 'Mock' } }
+    }
+  }
+
+  /**
+   * Find a track in the fixtures.
+   * @param encoded The base64 encoded track.
+   * @returns The track, or null if no fixture contains the track.
+   */
+  private _findTrack (encoded: string): TrackData | null {
+    for (const identifier of Object.keys(this.options.fixtures)) {
+      const track = this.options.fixtures[identifier].tracks.find((t) => t.track === encoded)
+      if (track) return track
+    }
+    return null
+  }
+
+  /**
+   * Convert a track to the v4 format.
+   * @param track The track.
+   * @returns The v4 track.
+   */
+  private _encodeTrack (track: TrackData): V4TrackData {
+    return { encoded: track.track, info: track.info, pluginInfo: {} }
+  }
+
+  /**
+   * Get a track in the format sent in event payloads.
+   * @param track The track.
+   * @returns The encoded track for v3 servers, or the v4 track for v4 servers.
+   */
+  private _eventTrack (track: TrackData): string | V4TrackData {
+    return this.options.version === 4 ? this._encodeTrack(track) : track.track
+  }
+
+  /**
+   * Get the server's info.
+   * @returns The info.
+   */
+  private _info (): NodeInfo {
+    return {
+      version: { semver: `${this.options.version}.0.0`, major: this.options.version, minor: 0, patch: 0, preRelease: null },
+      buildTime: this.startedAt,
+      git: { branch: 'mock', commit: 'mock', commitTime: this.startedAt },
+      jvm: 'mock',
+      lavaplayer: 'mock',
+      sourceManagers: this.options.sourceManagers,
+      filters: this.options.filters,
+      plugins: []
+    }
+  }
+}
@@ -0,0 +1,186 @@
+import { APIChannel, APIGuild, APIGuildMember, ChannelType, GatewayVoiceServerUpdateDispatchData, GatewayVoiceState } from 'discord-api-types'
+import { EventEmitter } from '@jpbberry/typed-emitter'
+import { Snowflake } from 'discord-rose'
+
+export interface MockWorkerOptions {
+  /**
+   * The bot's user ID.
+   * @default '1'
+   */
+  userId: Snowflake
+  /**
+   * The gateway session ID reported by every shard.
+   * @default 'mock-session'
+   */
+  sessionId: string
+  /**
+   * The voice server endpoint sent in voice server updates.
+   * @default 'us-east1.discord.media:443'
+   */
+  voiceEndpoint: string
+  /**
+   * The delay in milliseconds between receiving a voice state payload and dispatching the resulting voice updates.
+   * @default 0
+   */
+  voiceUpdateDelay: number
+  /**
+   * If voice updates should be dispatched automatically when a voice state payload is sent.
+   * If false, updates must be dispatched manually with MockWorker#dispatchVoiceState() and MockWorker#dispatchVoiceServer().
+   * @default true
+   */
+  autoVoiceUpdates: boolean
+}
+
+export interface MockWorkerEvents {
+  /**
+   * Emitted when a voice state update is dispatched.
+   */
+  VOICE_STATE_UPDATE: GatewayVoiceState
+  /**
+   * Emitted when a voice server update is dispatched.
+   */
+  VOICE_SERVER_UPDATE: GatewayVoiceServerUpdateDispatchData
+  /**
+   * Emitted when a payload is sent to the gateway.
+   */
+  GATEWAY_SEND: { op: number, d: any }
+}
+
+/**
+ * A fake discord-rose worker for testing lavalink managers offline.
+ * The worker answers voice state payloads sent by players with voice state and voice server updates, and serves channels, guilds and members from MockWorker#channels, MockWorker#guilds and MockWorker#members.
+ * Pass the worker to a manager with `new LavalinkManager(options, worker as unknown as Worker)`.
+ */
+export class MockWorker extends EventEmitter<MockWorkerEvents> {
+  /**
+   * Channels served by the fake API, keyed by channel ID. Unknown channels are served as guild voice channels.
+   */
+  public channels: Map<Snowflake, Partial<APIChannel>> = new Map()
+  /**
+   * Guilds served by the fake API, keyed by guild ID. Unknown guilds are served without roles.
+   */
+  public guilds: Map<Snowflake, Partial<APIGuild>> = new Map()
+  /**
+   * Guild members served by the fake API, keyed by `${guildId}:${userId}`. Unknown members are served without roles.
+   */
+  public members: Map<string, Partial<APIGuildMember>> = new Map()
+  /**
+   * The worker's options.
+   */
+  public readonly options: MockWorkerOptions
+  /**
+   * Requests made to the fake API with MockWorker#api#request().
+   */
+  public requests: Array<{ method: string, route: string, options: any }> = []
+  /**
+   * Payloads sent to the gateway.
+   */
+  public sent: Array<{ op: number, d: any }> = []
+  /**
+   * The bot's user.
+   */
+  public readonly user: { id: Snowflake }
+  /**
+   * The bot's current voice states, keyed by guild ID.
+   */
+  public voiceStates: Map<Snowflake, GatewayVoiceState> = new Map()
+
+  /**
+   * The fake discord API.
+   */
+  public readonly api = {
+    channels: {
+      get: async (channelId: Snowflake): Promise<APIChannel> => Object.assign({ id: channelId, type: ChannelType.GuildVoice, permission_overwrites: [] }, this.channels.get(channelId) ?? {}) as APIChannel
+    },
+    guilds: {
+      get: async (guildId: Snowflake): Promise<APIGuild> => Object.assign({ id: guildId, owner_id: '0', roles: [{ id: guildId, permissions: '0' }] }, this.guilds.get(guildId) ?? {}) as APIGuild
+    },
+    members: {
+      get: async (guildId: Snowflake, userId: Snowflake): Promise<APIGuildMember> => Object.assign({ user: { id: userId }, roles: [] }, this.members.get(`${guildId}:${userId}`) ?? {}) as APIGuildMember
+    },
+    request: async (method: string, route: string, options: any = {}): Promise<null> => {
+      this.requests.push({ method, route, options })
+      return null
+    }
+  }
+
+  /**
+   * Create a mock worker.
+   * @param options The worker's options.
+   */
+  constructor (options: Partial<MockWorkerOptions> = {}) {
+    super()
+
+    this.options = {
+      userId: options.userId ?? '1',
+      sessionId: options.sessionId ?? 'mock-session',
+      voiceEndpoint: options.voiceEndpoint ?? 'us-east1.discord.media:443',
+      voiceUpdateDelay: options.voiceUpdateDelay ?? 0,
+      autoVoiceUpdates: options.autoVoiceUpdates ?? true
+    }
+    this.user = { id: this.options.userId }
+  }
+
+  /**
+   * Get the fake shard responsible for a guild.
+   * @param guildId The guild's ID.
+   * @returns The fake shard.
+   */
+  public guildShard (guildId: Snowflake): { ws: { sessionID: string, _send: (payload: { op: number, d: any }) => Promise<void> } } {
+    return {
+      ws: {
+        sessionID: this.options.sessionId,
+        _send: async (payload) => this._send(payload)
+      }
+    }
+  }
+
+  /**
+   * Dispatch a voice state update for the bot.
+   * @param guildId The guild's ID.
+   * @param channelId The voice channel's ID, or null if the bot left the channel.
+   * @param data Additional voice state data.
+   */
+  public dispatchVoiceState (guildId: Snowflake, channelId: Snowflake | null, data: Partial<GatewayVoiceState> = {}): void {
+    const state: GatewayVoiceState = Object.assign({
+      guild_id: guildId,
+      channel_id: channelId,
+      user_id: this.user.id,
+      session_id: this.options.sessionId,
+      deaf: false,
+      mute: false,
+      self_deaf: false,
+      self_mute: false,
+      self_video: false,
+      suppress: false,
+      request_to_speak_timestamp: null
+    }, data)
+    if (channelId) this.voiceStates.set(guildId, state)
+    else this.voiceStates.delete(guildId)
+    this.emit('VOICE_STATE_UPDATE', state)
+  }
+
+  /**
+   * Dispatch a voice server update.
+   * @param guildId The guild's ID.
+   * @param endpoint The voice server's endpoint. null indicates the voice server is being reallocated.
+   * @param token The voice connection's token.
+   */
+  public dispatchVoiceServer (guildId: Snowflake, endpoint: string | null = this.options.voiceEndpoint, token: string = 'mock-token'): void {
+    this.emit('VOICE_SERVER_UPDATE', { guild_id: guildId, endpoint, token })
+  }
+
+  /**
+   * Handle a payload sent to the gateway.
+   * @param payload The payload.
+   */
+  private _send (payload: { op: number, d: any }): void {
+    this.sent.push(payload)
+    this.emit('GATEWAY_SEND', payload)
+    if (payload.op !== 4 || !this.options.autoVoiceUpdates) return
+    setTimeout(() => {
+      this.dispatchVoiceState(payload.d.guild_id, payload.d.channel_id, { self_deaf: payload.d.self_deaf, self_mute: payload.d.self_mute })
+      if (payload.d.channel_id) this.dispatchVoiceServer(payload.d.guild_id)
+    }, this.options.voiceUpdateDelay)
+  }
+}
@@ -0,0 +1,199 @@
+import { LavalinkManager, Node } from '../typings/lib'
+import { LavalinkManager as LavalinkManagerClass, LavalinkManagerOptions } from '../structures/LavalinkManager'
+import { NodeState, RequestMethods } from '../structures/Node'
+import { PlayerState } from '../structures/Player'
+import { RecordingEntry } from '../structures/Recorder'
+import { MockWorker } from './MockWorker'
+
+import { OutboundPayload } from '../typings/Lavalink'
+
+import { readFile } from 'fs/promises'
+import { RequestInit, Response } from 'node-fetch'
+import { URL } from 'url'
+import { Worker } from 'discord-rose'
+
+/**
+ * Options for running a replay.
+ */
+export interface ReplayRunOptions {
+  /**
+   * A function that stops the replay before an entry is replayed when it returns true.
+   */
+  until?: (entry: RecordingEntry) => boolean
+  /**
+   * If the delays between entries should be reproduced.
+   * @default false
+   */
+  realtime?: boolean
+}
+
+/**
+ * Replays a recording created by a Recorder into a lavalink manager with stubbed nodes.
+ * Received payloads, REST responses, voice events and player creations are replayed in order. Payloads and requests sent by the manager are not sent to a server, and are collected in Replayer#sent and Replayer#requests instead.
+ * REST request attempts are answered with the first unused recorded response for the same node, method and route, so retries are reproduced.
+ * Player methods, such as Player#play(), are not recorded, and can be called between steps to reproduce them.
+ */
+export class Replayer {
+  /**
+   * The recording's entries.
+   */
+  public readonly entries: RecordingEntry[]
+  /**
+   * The manager the recording is replayed into.
+   */
+  public readonly manager: LavalinkManager
+  /**
+   * The index of the next entry to replay.
+   */
+  public position: number = 0
+  /**
+   * Requests made by the manager during the replay.
+   */
+  public requests: Array<{ node: string, method: RequestMethods, route: string, body: any }> = []
+  /**
+   * Payloads sent by the manager during the replay.
+   */
+  public sent: Array<{ node: string, payload: OutboundPayload }> = []
+  /**
+   * The worker voice events are replayed through.
+   */
+  public readonly worker: MockWorker
+
+  /**
+   * Indexes of recorded requests that have been used to answer requests.
+   */
+  private readonly usedRequests: Set<number> = new Set()
+
+  /**
+   * Create a replayer.
+   * @param entries The recording's entries.
+   * @param options Options for the manager the recording is replayed into. Nodes are created from the recording, so nodeOptions should not be specified.
+   */
+  constructor (entries: RecordingEntry[], options: Partial<LavalinkManagerOptions> = {}) {
+    this.entries = entries
+
+    const start = entries.find((entry) => entry.type === 'start')
+    this.worker = new MockWorker({ userId: start?.type === 'start' ? start.userId : undefined, autoVoiceUpdates: false })
+
+    const identifiers = [...new Set(entries.filter((entry) => 'node' in entry).map((entry) => (entry as { node: string }).node))]
+    if (!identifiers.length) identifiers.push('replay')
+    this.manager = new LavalinkManagerClass(Object.assign({}, options, {
+      nodeOptions: identifiers.map((identifier) => ({ identifier, host: 'replay.invalid', maxRetrys: 1, requestRetryDelay: 0 }))
+    }), this.worker as unknown as Worker)
+    this.manager.nodes.forEach((node) => this._stubNode(node))
+  }
+
+  /**
+   * Create a replayer from a recording file.
+   * @param path The path of the recording.
+   * @param options Options for the manager the recording is replayed into.
+   * @returns The replayer.
+   */
+  public static async fromFile (path: string, options: Partial<LavalinkManagerOptions> = {}): Promise<Replayer> {
+    const data = await readFile(path, 'utf8')
+    return new Replayer(data.split('\n').filter((line) => line.trim().length).map((line) => JSON.parse(line)), options)
+  }
+
+  /**
+   * If all entries have been replayed.
+   */
+  public get finished (): boolean {
+    return this.position >= this.entries.length
+  }
+
+  /**
+   * Replay the next entry.
+   * @returns The replayed entry, or null if all entries have been replayed.
+   */
+  public async step (): Promise<RecordingEntry | null> {
+    const entry = this.entries[this.position]
+    if (!entry) return null
+    this.position++
+
+    switch (entry.type) {
+      case 'node': {
+        const node = this.manager.nodes.get(entry.node)
+        if (node) {
+          node.version = entry.version
+          node.sessionId = entry.sessionId
+        }
+        break
+      }
+      case 'player':
+        if (!this.manager.players.has(entry.guildId)) this.manager.createPlayer(Object.assign({}, entry.options, { nodeFilter: (node: Node) => node.identifier === entry.node }))
+        break
+      case 'raw': {
+        const node = this.manager.nodes.get(entry.node)
+        if (!node) break
+        if (entry.payload.op === 'ready') node.sessionId = entry.payload.sessionId
+        // @ts-expect-error Property '_onMessage' is private and only accessible within class 'Node'
+        else node._onMessage(JSON.stringify(entry.payload))
+        break
+      }
+      case 'voice':
+        if (entry.event === 'VOICE_STATE_UPDATE') {
+          const player = this.manager.players.get(entry.data.guild_id ?? '')
+          // Connecting is not recorded, so players are connected when the bot joins their voice channel.
+          if (player?.state === PlayerState.DISCONNECTED && entry.data.user_id === this.worker.user.id && entry.data.channel_id) player.connect().catch(() => {})
+          this.worker.emit('VOICE_STATE_UPDATE', entry.data)
+        } else this.worker.emit('VOICE_SERVER_UPDATE', entry.data)
+        break
+    }
+
+    // Let handlers triggered by the entry run before the next entry is replayed.
+    await new Promise((resolve) => setImmediate(resolve))
+    return entry
+  }
+
+  /**
+   * Replay entries until the recording ends, or until the until option returns true.
+   * @param options Run options.
+   * @returns The number of replayed entries.
+   */
+  public async run (options: ReplayRunOptions = {}): Promise<number> {
+    let count = 0
+    while (!this.finished) {
+      const entry = this.entries[this.position]
+      if (options.until?.(entry)) break
+      const previous = this.entries[this.position - 1]
+      if (options.realtime && previous) await new Promise((resolve) => setTimeout(resolve, Math.max(entry.time - previous.time, 0)))
+      await this.step()
+      count++
+    }
+    return count
+  }
+
+  /**
+   * Stub a node, so that it appears connected and answers requests from the recording.
+   * @param node The node to stub.
+   */
+  private _stubNode (node: Node): void {
+    node.state = NodeState.CONNECTED
+    node.connect = async () => {}
+    node.send = async (payload) => {
+      this.sent.push({ node: node.identifier, payload })
+      node.emit('SENT', { node, payload })
+      return true
+    }
+    // @ts-expect-error Property '_fetch' is private and only accessible within class 'Node'
+    node._fetch = async (url: string, init: RequestInit): Promise<Response> => {
+      const method = init.method as RequestMethods
+      const route = new URL(url).pathname
+      let body: any = init.body ?? null
+      try {
+        body = JSON.parse(body)
+      } catch {}
+      this.requests.push({ node: node.identifier, method, route, body })
+
+      const index = this.entries.findIndex((entry, i) => !this.usedRequests.has(i) && entry.type === 'request' && entry.node === node.identifier && entry.method === method && `/${entry.route.replace(/^\//, '')}` === route)
+      const entry = this.entries[index]
+      if (entry?.type !== 'request') throw new Error(`No recorded response for ${method} ${route}`)
+      this.usedRequests.add(index)
+      if (entry.status === null) throw new Error(`Recorded request failed without a response: ${method} ${route}`)
+      return new Response(entry.response === null ? undefined : typeof entry.response === 'string' ? entry.response : JSON.stringify(entry.response), {
+        status: entry.status,
+        headers: { 'Content-Type': typeof entry.response === 'string' ? 'text/plain' : 'application/json' }
+      })
+    }
+  }
+}
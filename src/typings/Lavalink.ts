@@ -137,3 +137,531 @@ export interface TrackData {
     readonly sourceName: string
   }
 }
+
+/**
+ * Track data received from a v4 lavalink server.
+ * This is normalized into TrackData internally.
+ */
+export interface V4TrackData {
+  /**
+   * The base64 encoded track.
+   */
+  readonly encoded: string
+  /**
+   * Track information.
+   */
+  readonly info: TrackData['info'] & {
+    /**
+     * The track's artwork URL.
+     */
+    readonly artworkUrl?: string | null
+    /**
+     * The track's ISRC.
+     */
+    readonly isrc?: string | null
+  }
+  /**
+   * Additional track info provided by plugins.
+   */
+  readonly pluginInfo?: any
+}
+
+/**
+ * A load type.
+ */
+export type LoadType = 'TRACK_LOADED' | 'PLAYLIST_LOADED' | 'SEARCH_RESULT' | 'NO_MATCHES' | 'LOAD_FAILED'
+
+/**
+ * An exception sent from the server.
+ */
+export interface LavalinkException {
+  /**
+   * The exception's message.
+   */
+  message: string
+  /**
+   * The exception's severity.
+   */
+  severity: string
+  /**
+   * The exception's cause.
+   */
+  cause?: string
+}
+
+/**
+ * A loadtracks response, normalized from the v3 and v4 formats.
+ */
+export interface LoadTracksResult {
+  /**
+   * The result's load type.
+   */
+  loadType: LoadType
+  /**
+   * The found tracks.
+   */
+  tracks: TrackData[]
+  /**
+   * Playlist info, if applicable.
+   */
+  playlistInfo?: {
+    name: string
+    selectedTrack: number | null
+  }
+  /**
+   * An exception, if applicable.
+   */
+  exception?: LavalinkException
+}
+
+/**
+ * Data to update a player with.
+ * This follows the v4 player update format, and is translated into websocket ops for v3 servers.
+ * @see [Lavalink Docs](https://lavalink.dev/api/rest.html#update-player)
+ */
+export interface PlayerUpdateData {
+  /**
+   * The base64 encoded track to play. null stops the current track.
+   */
+  encodedTrack?: string | null
+  /**
+   * The track position in milliseconds.
+   */
+  position?: number
+  /**
+   * The time in milliseconds at which point the track should stop playing.
+   */
+  endTime?: number
+  /**
+   * The player's volume. Minimum value of 0, maximum value of 1000.
+   */
+  volume?: number
+  /**
+   * If the player is paused.
+   */
+  paused?: boolean
+  /**
+   * The player's filters.
+   */
+  filters?: Filters
+  /**
+   * Voice connection data from discord.
+   */
+  voice?: {
+    token: string
+    endpoint: string
+    sessionId: string
+  }
+}
+
+/**
+ * A player's state on a v4 lavalink server.
+ * @see [Lavalink Docs](https://lavalink.dev/api/rest.html#player)
+ */
+export interface PlayerData {
+  /**
+   * The guild ID of the player.
+   */
+  guildId: string
+  /**
+   * The currently playing track.
+   */
+  track: V4TrackData | null
+  /**
+   * The player's volume.
+   */
+  volume: number
+  /**
+   * If the player is paused.
+   */
+  paused: boolean
+  /**
+   * The player's state.
+   */
+  state: {
+    time: number
+    position: number
+    connected: boolean
+    ping: number
+  }
+  /**
+   * The player's voice connection data.
+   */
+  voice: {
+    token: string
+    endpoint: string
+    sessionId: string
+  }
+  /**
+   * The player's filters.
+   */
+  filters: Filters
+}
+
+/**
+ * A ready payload, sent by v4 servers when a session is established.
+ */
+export interface ReadyPayload {
+  op: 'ready'
+  /**
+   * If the previous session was resumed.
+   */
+  resumed: boolean
+  /**
+   * The session's ID.
+   */
+  sessionId: string
+}
+
+/**
+ * A stats payload.
+ */
+export interface StatsPayload extends NodeStats {
+  op: 'stats'
+}
+
+/**
+ * A player update payload.
+ */
+export interface PlayerUpdatePayload {
+  op: 'playerUpdate'
+  /**
+   * The guild ID of the player.
+   */
+  guildId: string
+  /**
+   * The player's state.
+   */
+  state: {
+    time: number
+    position?: number
+    connected?: boolean
+    ping?: number
+  }
+}
+
+/**
+ * Properties shared by all event payloads.
+ */
+interface BaseEventPayload {
+  op: 'event'
+  /**
+   * The guild ID of the player.
+   */
+  guildId: string
+}
+
+/**
+ * A track start event payload.
+ */
+export interface TrackStartEventPayload extends BaseEventPayload {
+  type: 'TrackStartEvent'
+  /**
+   * The track. This is a base64 encoded track on v3 servers.
+   */
+  track: string | V4TrackData
+}
+
+/**
+ * A track end event payload.
+ */
+export interface TrackEndEventPayload extends BaseEventPayload {
+  type: 'TrackEndEvent'
+  /**
+   * The track. This is a base64 encoded track on v3 servers.
+   */
+  track: string | V4TrackData
+  /**
+   * The reason the track ended.
+   */
+  reason: string
+}
+
+/**
+ * A track exception event payload.
+ */
+export interface TrackExceptionEventPayload extends BaseEventPayload {
+  type: 'TrackExceptionEvent'
+  /**
+   * The track. This is a base64 encoded track on v3 servers.
+   */
+  track: string | V4TrackData
+  /**
+   * The exception.
+   */
+  exception: LavalinkException
+}
+
+/**
+ * A track stuck event payload.
+ */
+export interface TrackStuckEventPayload extends BaseEventPayload {
+  type: 'TrackStuckEvent'
+  /**
+   * The track. This is a base64 encoded track on v3 servers.
+   */
+  track: string | V4TrackData
+  /**
+   * The threshold in milliseconds that was exceeded.
+   */
+  thresholdMs: number
+}
+
+/**
+ * A websocket closed event payload, sent when discord closes a player's voice connection.
+ */
+export interface WebSocketClosedEventPayload extends BaseEventPayload {
+  type: 'WebSocketClosedEvent'
+  /**
+   * The discord close code.
+   */
+  code: number
+  /**
+   * The close reason.
+   */
+  reason: string
+  /**
+   * If the connection was closed by discord.
+   */
+  byRemote: boolean
+}
+
+/**
+ * An event payload.
+ */
+export type EventPayload = TrackStartEventPayload | TrackEndEventPayload | TrackExceptionEventPayload | TrackStuckEventPayload | WebSocketClosedEventPayload
+
+/**
+ * A payload sent from the server.
+ */
+export type InboundPayload = ReadyPayload | StatsPayload | PlayerUpdatePayload | EventPayload
+
+/**
+ * A play op.
+ */
+export interface PlayOp {
+  op: 'play'
+  guildId: string
+  track: string
+  startTime?: number
+  endTime?: number
+  volume?: number
+  noReplace?: boolean
+  pause?: boolean
+}
+
+/**
+ * A stop op.
+ */
+export interface StopOp {
+  op: 'stop'
+  guildId: string
+}
+
+/**
+ * A pause op.
+ */
+export interface PauseOp {
+  op: 'pause'
+  guildId: string
+  pause: boolean
+}
+
+/**
+ * A seek op.
+ */
+export interface SeekOp {
+  op: 'seek'
+  guildId: string
+  position: number
+}
+
+/**
+ * A volume op.
+ */
+export interface VolumeOp {
+  op: 'volume'
+  guildId: string
+  volume: number
+}
+
+/**
+ * A filters op.
+ */
+export interface FiltersOp extends Filters {
+  op: 'filters'
+  guildId: string
+}
+
+/**
+ * A voice update op.
+ */
+export interface VoiceUpdateOp {
+  op: 'voiceUpdate'
+  guildId: string
+  sessionId: string
+  event: {
+    token: string
+    endpoint: string
+    guild_id: string
+  }
+}
+
+/**
+ * A destroy op.
+ */
+export interface DestroyOp {
+  op: 'destroy'
+  guildId: string
+}
+
+/**
+ * A configure resuming op.
+ */
+export interface ConfigureResumingOp {
+  op: 'configureResuming'
+  key: string
+  timeout: number
+}
+
+/**
+ * A payload sent to v3 servers.
+ * @see [Lavalink Docs](https://github.com/freyacodes/Lavalink/blob/dev/IMPLEMENTATION.md#outgoing-messages)
+ */
+export type OutboundPayload = PlayOp | StopOp | PauseOp | SeekOp | VolumeOp | FiltersOp | VoiceUpdateOp | DestroyOp | ConfigureResumingOp
+
+/**
+ * A loadtracks response from a v3 server.
+ */
+export interface V3LoadTracksResponse {
+  loadType: LoadType
+  tracks: TrackData[]
+  playlistInfo: {
+    name?: string
+    selectedTrack?: number
+  }
+  exception?: LavalinkException
+}
+
+/**
+ * A loadtracks response from a v4 server.
+ */
+export type V4LoadTracksResponse = { loadType: 'track', data: V4TrackData }
+| { loadType: 'playlist', data: { info: { name: string, selectedTrack: number }, pluginInfo?: any, tracks: V4TrackData[] } }
+| { loadType: 'search', data: V4TrackData[] }
+| { loadType: 'empty', data: {} }
+| { loadType: 'error', data: LavalinkException }
+
+/**
+ * An address marked as failing by the route planner.
+ */
+export interface RoutePlannerFailingAddress {
+  /**
+   * The failing address.
+   */
+  failingAddress: string
+  /**
+   * The time the address failed, as a unix timestamp in milliseconds.
+   */
+  failingTimestamp: number
+  /**
+   * The time the address failed, as a pretty string.
+   */
+  failingTime: string
+}
+
+/**
+ * The status of a node's route planner.
+ * @see [Lavalink Docs](https://lavalink.dev/api/rest.html#get-routeplanner-status)
+ */
+export interface RoutePlannerStatus {
+  /**
+   * The route planner's class.
+   */
+  class: 'RotatingIpRoutePlanner' | 'NanoIpRoutePlanner' | 'RotatingNanoIpRoutePlanner' | 'BalancingIpRoutePlanner' | null
+  /**
+   * The route planner's details.
+   */
+  details: {
+    /**
+     * The IP block being used.
+     */
+    ipBlock: {
+      type: 'Inet4Address' | 'Inet6Address'
+      size: string
+    }
+    /**
+     * The addresses marked as failing.
+     */
+    failingAddresses: RoutePlannerFailingAddress[]
+    /**
+     * The number of rotations. Only set for the RotatingIpRoutePlanner.
+     */
+    rotateIndex?: string
+    /**
+     * The current offset in the block. Only set for the RotatingIpRoutePlanner.
+     */
+    ipIndex?: string
+    /**
+     * The current address being used. Only set for the RotatingIpRoutePlanner.
+     */
+    currentAddress?: string
+    /**
+     * The current offset in the IP block. Only set for the NanoIpRoutePlanner and RotatingNanoIpRoutePlanner.
+     */
+    currentAddressIndex?: string
+    /**
+     * The information in which /64 block IPs are chosen. Only set for the RotatingNanoIpRoutePlanner.
+     */
+    blockIndex?: string
+  } | null
+}
+
+/**
+ * Information about a lavalink server.
+ * @see [Lavalink Docs](https://lavalink.dev/api/rest.html#get-lavalink-info)
+ */
+export interface NodeInfo {
+  /**
+   * The server's version.
+   */
+  version: {
+    semver: string
+    major: number
+    minor: number
+    patch: number
+    preRelease: string | null
+  }
+  /**
+   * The time the server was built, as a unix timestamp in milliseconds.
+   */
+  buildTime: number
+  /**
+   * The server's git information.
+   */
+  git: {
+    branch: string
+    commit: string
+    commitTime: number
+  }
+  /**
+   * The server's JVM version.
+   */
+  jvm: string
+  /**
+   * The server's lavaplayer version.
+   */
+  lavaplayer: string
+  /**
+   * The enabled source managers.
+   */
+  sourceManagers: string[]
+  /**
+   * The enabled filters.
+   */
+  filters: string[]
+  /**
+   * The enabled plugins.
+   */
+  plugins: Array<{ name: string, version: string }>
+}
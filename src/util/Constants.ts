@@ -1,10 +1,40 @@
 export default {
-  SOURCE_IDENTIFIERS: {
-    youtube: 'yt',
-    spotify: 'sc'
+  SOURCES: {
+    youtube: { sourceManager: 'youtube', searchPrefix: 'ytsearch' },
+    youtubemusic: { sourceManager: 'youtube', searchPrefix: 'ytmsearch' },
+    soundcloud: { sourceManager: 'soundcloud', searchPrefix: 'scsearch' },
+    bandcamp: { sourceManager: 'bandcamp', searchPrefix: 'bcsearch' },
+    twitch: { sourceManager: 'twitch', searchPrefix: null },
+    vimeo: { sourceManager: 'vimeo', searchPrefix: null },
+    http: { sourceManager: 'http', searchPrefix: null },
+    local: { sourceManager: 'local', searchPrefix: null }
   },
   URL_REGEX: /^https?:\/\//,
-  SPOTIFY_REGEX: /(?:https:\/\/open\.spotify\.com\/|spotify:)(?:.+)?(track|playlist|album)[/:]([A-Za-z0-9]+)/,
+  SPOTIFY_REGEX: /(?:https:\/\/open\.spotify\.com\/|spotify:)(?:.+)?(track|playlist|album|artist|episode|show)[/:]([A-Za-z0-9]+)/,
   SPOTIFY_BASE_URL: 'https://api.spotify.com/v1',
-  SPOTIFY_TOKEN_ENDPOINT: 'https://accounts.spotify.com/api/token'
+  SPOTIFY_TOKEN_ENDPOINT: 'https://accounts.spotify.com/api/token',
+  PAYLOAD_FIELDS: {
+    ready: { resumed: 'boolean', sessionId: 'string' },
+    stats: { players: 'number', playingPlayers: 'number', uptime: 'number', memory: 'object', cpu: 'object' },
+    playerUpdate: { guildId: 'string', state: 'object' },
+    TrackStartEvent: { guildId: 'string', track: 'string|object' },
+    TrackEndEvent: { guildId: 'string', track: 'string|object', reason: 'string' },
+    TrackExceptionEvent: { guildId: 'string', track: 'string|object', exception: 'object' },
+    TrackStuckEvent: { guildId: 'string', track: 'string|object', thresholdMs: 'number' },
+    WebSocketClosedEvent: { guildId: 'string', code: 'number', reason: 'string', byRemote: 'boolean' }
+  },
+  VOICE_ENDPOINT_REGEX: /^(?:c-)?([a-z]+(?:-[a-z]+)*)\d*(?:-[a-z0-9]+)?\.discord\.(?:media|gg)/,
+  VOICE_REGIONS: {
+    'us-east': ['us-east', 'newark', 'atlanta', 'ewr', 'atl', 'iad'],
+    'us-central': ['us-central', 'chicago', 'ord'],
+    'us-south': ['us-south', 'dallas', 'dfw'],
+    'us-west': ['us-west', 'santa-clara', 'seattle', 'oregon', 'sjc', 'sea', 'lax'],
+    'eu-west': ['eu-west', 'europe', 'rotterdam', 'amsterdam', 'london', 'paris', 'madrid', 'rtm', 'ams', 'lhr', 'cdg', 'mad'],
+    'eu-central': ['eu-central', 'frankfurt', 'milan', 'stockholm', 'fra', 'mxp', 'arn'],
+    russia: ['russia', 'moscow', 'svo'],
+    asia: ['asia', 'hongkong', 'japan', 'singapore', 'south-korea', 'india', 'hkg', 'nrt', 'sin', 'icn', 'bom'],
+    sydney: ['sydney', 'syd'],
+    brazil: ['brazil', 'gru'],
+    southafrica: ['southafrica', 'jnb']
+  }
 }
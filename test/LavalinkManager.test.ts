@@ -0,0 +1,107 @@
+import { LavalinkManager, LavalinkManagerOptions, MockLavalinkServer, MockWorker, Node, PlayerState, TrackData } from '../src'
+
+import assert from 'assert'
+import { Worker } from 'discord-rose'
+
+const track = (identifier: string, length: number): TrackData => ({
+  track: `encoded-${identifier}`,
+  info: { identifier, author: 'Author', length, isStream: false, position: 0, title: `Title ${identifier}`, uri: `https://example.com/${identifier}`, sourceName: 'youtube' }
+})
+
+const once = async <T>(emitter: { once: (event: any, listener: (data: T) => void) => any }, event: string): Promise<T> => await new Promise((resolve) => emitter.once(event, resolve))
+
+describe('LavalinkManager', () => {
+  let servers: MockLavalinkServer[]
+  let manager: LavalinkManager
+
+  const start = async (count: number, options: Partial<LavalinkManagerOptions> = {}): Promise<void> => {
+    servers = []
+    for (let i = 0; i < count; i++) {
+      const server = new MockLavalinkServer({ playerUpdateInterval: 50, fixtures: { 'ytsearch:hello': { loadType: 'SEARCH_RESULT', tracks: [track('a', 60000)] } } })
+      await server.listen()
+      servers.push(server)
+    }
+    manager = new LavalinkManager(Object.assign({
+      nodeOptions: servers.map((server, i) => Object.assign({}, server.nodeOptions, { identifier: `node-${i}`, backoff: { base: 50, factor: 1, maxDelay: 50, jitter: 0 } }))
+    }, options), new MockWorker() as unknown as Worker)
+    await manager.connectNodes()
+  }
+
+  afterEach(async () => {
+    manager.players.forEach((player) => player.destroy('Test finished'))
+    manager.nodes.forEach((node) => node.destroy('Test finished'))
+    await Promise.all(servers.map(async (server) => await server.close()))
+  })
+
+  describe('roundRobin load balancing', () => {
+    it('only advances when a node is picked for a player', async () => {
+      await start(3, { leastLoadSort: 'roundRobin' })
+
+      const picked: string[] = []
+      for (let i = 0; i < 4; i++) {
+        assert.strictEqual(manager.leastLoadNodes.length, 3)
+        await manager.search('hello', 'requester')
+        picked.push(manager.createPlayer({ guildId: `${i}`, textChannelId: '1', voiceChannelId: '2' }).node.identifier)
+      }
+      assert.deepStrictEqual(picked, ['node-0', 'node-1', 'node-2', 'node-0'])
+    })
+  })
+
+  describe('failover', () => {
+    it('moves players to another node when their node is destroyed', async () => {
+      await start(2)
+      const search = await manager.search('hello', 'requester')
+      const player = manager.createPlayer({ guildId: '10', textChannelId: '11', voiceChannelId: '12' })
+      const oldNode = player.node
+      await player.connect()
+      const started = once(manager, 'PLAYER_TRACK_START')
+      await player.play(search.tracks[0])
+      await started
+      await player.setVolume(50)
+      await player.setFilters({ timescale: { speed: 1.5 } })
+      await new Promise((resolve) => setTimeout(resolve, 150))
+      const position = player.position ?? 0
+      assert.ok(position > 0)
+
+      const moved = once<{ oldNode: Node, newNode: Node }>(manager, 'PLAYER_NODE_MOVED')
+      oldNode.destroy('Test destroy')
+      const { newNode } = await moved
+      assert.notStrictEqual(newNode, oldNode)
+      assert.strictEqual(player.node, newNode)
+      assert.strictEqual(player.state, PlayerState.PLAYING)
+
+      const data = servers[newNode.identifier === 'node-0' ? 0 : 1].getPlayer('10')
+      assert.strictEqual(data?.track?.encoded, 'encoded-a')
+      assert.ok((data?.state.position ?? 0) >= position)
+      assert.strictEqual(data?.volume, 50)
+      assert.deepStrictEqual(data?.filters, { timescale: { speed: 1.5 } })
+      assert.ok(data?.voice.token)
+    })
+
+    it('destroys players when failover is disabled', async () => {
+      await start(2, { failover: false })
+      const player = manager.createPlayer({ guildId: '10', textChannelId: '11', voiceChannelId: '12' })
+      await player.connect()
+
+      const destroyed = once<{ reason: string }>(manager, 'PLAYER_DESTROYED')
+      player.node.destroy('Test destroy')
+      assert.strictEqual((await destroyed).reason, 'Attached node destroyed')
+      assert.strictEqual(player.state, PlayerState.DESTROYED)
+    })
+  })
+
+  describe('removeNode()', () => {
+    it('does not remove a node re-added with the same identifier while draining', async () => {
+      await start(1)
+      const node = manager.nodes.get('node-0')
+      assert.ok(node)
+      manager.createPlayer({ guildId: '10', textChannelId: '11', voiceChannelId: '12' })
+
+      const removing = manager.removeNode('node-0', { drain: true, migrate: false, timeout: 1000 })
+      node.destroy('Test destroy')
+      const added = manager.addNode(Object.assign({}, servers[0].nodeOptions, { identifier: 'node-0' }))
+      await removing
+      assert.strictEqual(manager.nodes.get('node-0'), await added)
+    })
+  })
+})
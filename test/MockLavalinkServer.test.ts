@@ -0,0 +1,94 @@
+import { LavalinkManager, MockLavalinkServer, MockWorker, NodeState, PlayerState, TrackData } from '../src'
+
+import assert from 'assert'
+import { Worker } from 'discord-rose'
+
+const track = (identifier: string, length: number): TrackData => ({
+  track: `encoded-${identifier}`,
+  info: { identifier, author: 'Author', length, isStream: false, position: 0, title: `Title ${identifier}`, uri: `https://example.com/${identifier}`, sourceName: 'youtube' }
+})
+
+const once = async <T>(emitter: { once: (event: any, listener: (data: T) => void) => any }, event: string): Promise<T> => await new Promise((resolve) => emitter.once(event, resolve))
+
+for (const version of [3, 4] as const) {
+  describe(`MockLavalinkServer (v${version})`, () => {
+    let server: MockLavalinkServer
+    let manager: LavalinkManager
+
+    beforeEach(async () => {
+      server = new MockLavalinkServer({ version, playerUpdateInterval: 50, fixtures: { 'ytsearch:hello': { loadType: 'SEARCH_RESULT', tracks: [track('a', 60000), track('b', 100)] } } })
+      await server.listen()
+      manager = new LavalinkManager({
+        nodeOptions: [Object.assign({}, server.nodeOptions, {
+          resumeKey: 'test',
+          resumeKeyConfig: { key: 'test', timeout: 60000 },
+          backoff: { base: 50, factor: 1, maxDelay: 50, jitter: 0 }
+        })]
+      }, new MockWorker() as unknown as Worker)
+    })
+
+    afterEach(async () => {
+      manager.players.forEach((player) => player.destroy('Test finished'))
+      manager.nodes.forEach((node) => node.destroy('Test finished'))
+      await server.close()
+    })
+
+    it('connects, searches and plays', async () => {
+      const [result] = await manager.connectNodes()
+      assert.strictEqual(result.status, 'fulfilled')
+      assert.strictEqual(manager.nodes.first()?.version, version)
+
+      const search = await manager.search('hello', 'requester')
+      assert.strictEqual(search.loadType, 'SEARCH_RESULT')
+      assert.strictEqual(search.tracks.length, 2)
+
+      const player = manager.createPlayer({ guildId: '10', textChannelId: '11', voiceChannelId: '12' })
+      await player.connect()
+      assert.strictEqual(player.state, PlayerState.CONNECTED)
+
+      const started = once(manager, 'PLAYER_TRACK_START')
+      await player.play(search.tracks[1])
+      await started
+      await once(manager, 'PLAYER_TRACK_END')
+      assert.strictEqual(server.getPlayer('10')?.track ?? null, null)
+    })
+
+    it('sends track end reasons in the server version\'s format', async () => {
+      await manager.connectNodes()
+      const search = await manager.search('hello', 'requester')
+      const player = manager.createPlayer({ guildId: '10', textChannelId: '11', voiceChannelId: '12' })
+      await player.connect()
+      const started = once(manager, 'PLAYER_TRACK_START')
+      await player.play(search.tracks[0])
+      await started
+
+      const raw = new Promise<any>((resolve) => manager.on('NODE_RAW', ({ payload }) => {
+        if (payload.op === 'event' && payload.type === 'TrackEndEvent') resolve(payload)
+      }))
+      const ended = once<{ reason: string }>(manager, 'PLAYER_TRACK_END')
+      server.sendEvent('10', { type: 'TrackExceptionEvent', exception: { message: 'Mock exception', severity: 'COMMON' } })
+      assert.strictEqual((await raw).reason, version === 4 ? 'loadFailed' : 'LOAD_FAILED')
+      assert.strictEqual((await ended).reason, 'LOAD_FAILED')
+    })
+
+    it('resumes the session after a disconnect', async () => {
+      await manager.connectNodes()
+      const node = manager.nodes.first()
+      assert.ok(node)
+
+      const search = await manager.search('hello', 'requester')
+      const player = manager.createPlayer({ guildId: '10', textChannelId: '11', voiceChannelId: '12' })
+      await player.connect()
+      const started = once(manager, 'PLAYER_TRACK_START')
+      await player.play(search.tracks[0])
+      await started
+
+      const reconnected = once<{ resumed: boolean }>(manager, 'NODE_RECONNECTED')
+      server.disconnectAll(4000, 'Test disconnect')
+      const { resumed } = await reconnected
+      assert.strictEqual(resumed, true)
+      assert.strictEqual(node.state, NodeState.CONNECTED)
+      assert.strictEqual(player.state, PlayerState.PLAYING)
+    })
+  })
+}
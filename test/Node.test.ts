@@ -0,0 +1,77 @@
+import { LavalinkManager, MockWorker, Node, NodeOptions, NodeState } from '../src'
+
+import assert from 'assert'
+import { Worker } from 'discord-rose'
+import { createServer as createHttpServer } from 'http'
+import { AddressInfo, createServer, Server, Socket } from 'net'
+import WebSocket from 'ws'
+
+describe('Node', () => {
+  let server: Server
+  let sockets: Socket[]
+  let manager: LavalinkManager
+
+  const createNode = (port: number, options: NodeOptions = {}): Node => {
+    manager = new LavalinkManager({
+      nodeOptions: [Object.assign({ host: 'localhost', port, connectionTimeout: 300, requestTimeout: 5000 }, options)]
+    }, new MockWorker() as unknown as Worker)
+    return manager.nodes.first() as Node
+  }
+
+  afterEach(async () => {
+    manager?.nodes.forEach((node) => node.destroy('Test finished'))
+    sockets.forEach((socket) => socket.destroy())
+    await new Promise((resolve) => server.close(() => resolve(undefined)))
+  })
+
+  describe('connect()', () => {
+    it('times out within the connection timeout when the server never responds', async () => {
+      sockets = []
+      server = createServer((socket) => sockets.push(socket))
+      await new Promise((resolve) => server.listen(0, () => resolve(undefined)))
+      const node = createNode((server.address() as AddressInfo).port)
+
+      const start = Date.now()
+      await assert.rejects(node.connect(), /Timed out while connecting/)
+      assert.ok(Date.now() - start < 1000)
+      assert.strictEqual(node.state, NodeState.DISCONNECTED)
+    })
+
+    it('times out when the server never answers the websocket upgrade', async () => {
+      sockets = []
+      const http = createHttpServer((req, res) => res.writeHead(404).end())
+      http.on('upgrade', (req, socket: Socket) => sockets.push(socket))
+      server = http
+      await new Promise((resolve) => server.listen(0, () => resolve(undefined)))
+      const node = createNode((server.address() as AddressInfo).port)
+
+      await assert.rejects(node.connect(), /Timed out while connecting/)
+      assert.strictEqual(node.state, NodeState.DISCONNECTED)
+      // Terminating the socket emits an error on the next tick, which must not be unhandled.
+      await new Promise((resolve) => setTimeout(resolve, 50))
+    })
+
+    it('leaves retrying to the caller when the connection closes before the server is ready', async () => {
+      sockets = []
+      let upgrades = 0
+      const wss = new WebSocket.Server({ noServer: true })
+      const http = createHttpServer((req, res) => req.url === '/version' ? res.writeHead(200, { 'Content-Type': 'text/plain' }).end('4.0.0') : res.writeHead(404).end())
+      http.on('upgrade', (req, socket: Socket, head) => {
+        upgrades++
+        wss.handleUpgrade(req, socket, head, (ws) => ws.close(4000, 'Not ready'))
+      })
+      server = http
+      await new Promise((resolve) => server.listen(0, () => resolve(undefined)))
+      const node = createNode((server.address() as AddressInfo).port, { maxRetrys: 4, backoff: { base: 20, factor: 1, maxDelay: 20, jitter: 0 } })
+      const reconnects: number[] = []
+      node.on('RECONNECTING', ({ attempt }) => reconnects.push(attempt))
+
+      const [result] = await manager.connectNodes()
+      assert.strictEqual(result.status, 'rejected')
+      await new Promise((resolve) => setTimeout(resolve, 200))
+      assert.strictEqual(upgrades, 4)
+      assert.deepStrictEqual(reconnects, [])
+      wss.close()
+    })
+  })
+})
@@ -0,0 +1,93 @@
+import { LavalinkManager, MockLavalinkServer, MockWorker, Node, Player, PlayerState, TrackData } from '../src'
+
+import assert from 'assert'
+import { Worker } from 'discord-rose'
+
+const track = (identifier: string, length: number): TrackData => ({
+  track: `encoded-${identifier}`,
+  info: { identifier, author: 'Author', length, isStream: false, position: 0, title: `Title ${identifier}`, uri: `https://example.com/${identifier}`, sourceName: 'youtube' }
+})
+
+const once = async <T>(emitter: { once: (event: any, listener: (data: T) => void) => any }, event: string): Promise<T> => await new Promise((resolve) => emitter.once(event, resolve))
+
+describe('Player', () => {
+  let servers: MockLavalinkServer[]
+  let manager: LavalinkManager
+  let player: Player
+
+  beforeEach(async () => {
+    servers = [
+      new MockLavalinkServer({ playerUpdateInterval: 50, fixtures: { 'ytsearch:hello': { loadType: 'SEARCH_RESULT', tracks: [track('a', 60000)] } } }),
+      new MockLavalinkServer({ playerUpdateInterval: 50, fixtures: { 'ytsearch:hello': { loadType: 'SEARCH_RESULT', tracks: [track('a', 60000)] } } })
+    ]
+    await Promise.all(servers.map(async (server) => await server.listen()))
+    manager = new LavalinkManager({
+      nodeOptions: servers.map((server, i) => Object.assign({}, server.nodeOptions, { identifier: `node-${i}` }))
+    }, new MockWorker() as unknown as Worker)
+    await manager.connectNodes()
+
+    const search = await manager.search('hello', 'requester')
+    player = manager.createPlayer({ guildId: '10', textChannelId: '11', voiceChannelId: '12', nodeFilter: (node) => node.identifier === 'node-0' })
+    await player.connect()
+    const started = once(player, 'TRACK_START')
+    await player.play(search.tracks[0])
+    await started
+  })
+
+  afterEach(async () => {
+    manager.players.forEach((player) => player.destroy('Test finished'))
+    manager.nodes.forEach((node) => node.destroy('Test finished'))
+    await Promise.all(servers.map(async (server) => await server.close()))
+  })
+
+  describe('moveNode()', () => {
+    it('restores playback on the new node and cleans up the old node', async () => {
+      await player.setVolume(50)
+      await player.setFilters({ timescale: { speed: 1.5 } })
+      await new Promise((resolve) => setTimeout(resolve, 150))
+      const position = player.position ?? 0
+      assert.ok(position > 0)
+
+      const oldNode = player.node
+      const newNode = manager.nodes.get('node-1') as Node
+      const moved = once<{ player: Player, oldNode: Node, newNode: Node }>(manager, 'PLAYER_NODE_MOVED')
+      await player.moveNode(newNode)
+      const event = await moved
+      assert.strictEqual(event.player, player)
+      assert.strictEqual(event.oldNode, oldNode)
+      assert.strictEqual(event.newNode, newNode)
+      assert.strictEqual(player.node, newNode)
+
+      const data = servers[1].getPlayer('10')
+      assert.strictEqual(data?.track?.encoded, 'encoded-a')
+      assert.ok((data?.state.position ?? 0) >= position)
+      assert.strictEqual(data?.volume, 50)
+      assert.deepStrictEqual(data?.filters, { timescale: { speed: 1.5 } })
+      assert.ok(data?.voice.token)
+      assert.strictEqual(servers[0].getPlayer('10'), null)
+    })
+
+    it('keeps a paused player paused', async () => {
+      await player.pause()
+      const started = once(player, 'TRACK_START')
+      await player.moveNode(manager.nodes.get('node-1') as Node)
+      await started
+      assert.strictEqual(servers[1].getPlayer('10')?.paused, true)
+      assert.strictEqual(player.state, PlayerState.PAUSED)
+    })
+
+    it('handles events from the new node', async () => {
+      await player.moveNode(manager.nodes.get('node-1') as Node)
+      const ended = once<{ reason: string }>(player, 'TRACK_END')
+      servers[1].sendEvent('10', { type: 'TrackExceptionEvent', exception: { message: 'Mock exception', severity: 'COMMON' } })
+      assert.strictEqual((await ended).reason, 'LOAD_FAILED')
+    })
+
+    it('rejects moving to the attached node or a draining node', async () => {
+      await assert.rejects(player.moveNode(player.node), /already attached/)
+      const node = manager.nodes.get('node-1') as Node
+      node.draining = true
+      await assert.rejects(player.moveNode(node), /draining/)
+    })
+  })
+})
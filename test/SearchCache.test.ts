@@ -0,0 +1,127 @@
+import { LavalinkManager, LoadTracksResult, MemorySearchCacheStore, MockLavalinkServer, MockWorker, SearchCache, Track, TrackData } from '../src'
+
+import AbortController from 'abort-controller'
+import assert from 'assert'
+import { Worker } from 'discord-rose'
+
+const track = (identifier: string): TrackData => ({
+  track: `encoded-${identifier}`,
+  info: { identifier, author: 'Author', length: 60000, isStream: false, position: 0, title: `Title ${identifier}`, uri: `https://example.com/${identifier}`, sourceName: 'youtube' }
+})
+
+const result = (loadType: LoadTracksResult['loadType'], identifier: string = 'a'): LoadTracksResult => loadType === 'SEARCH_RESULT' ? { loadType, tracks: [track(identifier)] } : { loadType, tracks: [] }
+
+describe('SearchCache', () => {
+  describe('get()', () => {
+    it('caches results and coalesces concurrent loads', async () => {
+      const cache = new SearchCache()
+      let loads = 0
+      const load = async (): Promise<LoadTracksResult> => {
+        loads++
+        await new Promise((resolve) => setTimeout(resolve, 20))
+        return result('SEARCH_RESULT')
+      }
+
+      const [a, b] = await Promise.all([cache.get('key', load), cache.get('key', load)])
+      assert.strictEqual(a, b)
+      await cache.get('key', load)
+      assert.strictEqual(loads, 1)
+      assert.strictEqual(cache.misses, 1)
+      assert.strictEqual(cache.hits, 2)
+    })
+
+    it('expires results after their load type\'s TTL', async () => {
+      const cache = new SearchCache({ ttl: 20, noMatchesTtl: 0 })
+      let loads = 0
+      const load = (loadType: LoadTracksResult['loadType']) => async (): Promise<LoadTracksResult> => {
+        loads++
+        return result(loadType)
+      }
+
+      await cache.get('search', load('SEARCH_RESULT'))
+      await cache.get('search', load('SEARCH_RESULT'))
+      assert.strictEqual(loads, 1)
+      await new Promise((resolve) => setTimeout(resolve, 30))
+      await cache.get('search', load('SEARCH_RESULT'))
+      assert.strictEqual(loads, 2)
+
+      await cache.get('empty', load('NO_MATCHES'))
+      await cache.get('empty', load('NO_MATCHES'))
+      assert.strictEqual(loads, 4)
+
+      await cache.get('failed', load('LOAD_FAILED'))
+      await cache.get('failed', load('LOAD_FAILED'))
+      assert.strictEqual(loads, 6)
+    })
+
+    it('caches failed loads when a LOAD_FAILED TTL is specified', async () => {
+      const cache = new SearchCache({ loadFailedTtl: 1000 })
+      let loads = 0
+      const load = async (): Promise<LoadTracksResult> => {
+        loads++
+        return result('LOAD_FAILED')
+      }
+
+      await cache.get('failed', load)
+      await cache.get('failed', load)
+      assert.strictEqual(loads, 1)
+    })
+
+    it('stops waiting when the signal is aborted', async () => {
+      const cache = new SearchCache()
+      const controller = new AbortController()
+      const loading = cache.get('key', async () => await new Promise((resolve) => setTimeout(() => resolve(result('SEARCH_RESULT')), 50)), controller.signal as AbortSignal)
+      controller.abort()
+      await assert.rejects(loading, /aborted/)
+      assert.strictEqual((await cache.get('key', async () => result('NO_MATCHES'))).loadType, 'SEARCH_RESULT')
+    })
+  })
+})
+
+describe('MemorySearchCacheStore', () => {
+  it('evicts the least recently used result when full', () => {
+    const store = new MemorySearchCacheStore(2)
+    store.set('a', result('SEARCH_RESULT', 'a'), 1000)
+    store.set('b', result('SEARCH_RESULT', 'b'), 1000)
+    store.get('a')
+    store.set('c', result('SEARCH_RESULT', 'c'), 1000)
+    assert.strictEqual(store.size, 2)
+    assert.ok(store.get('a'))
+    assert.strictEqual(store.get('b'), null)
+    assert.ok(store.get('c'))
+  })
+})
+
+describe('LavalinkManager search caching', () => {
+  let servers: MockLavalinkServer[]
+  let manager: LavalinkManager
+
+  beforeEach(async () => {
+    servers = [
+      new MockLavalinkServer({ fixtures: { 'ytsearch:hello': result('SEARCH_RESULT', 'a') } }),
+      new MockLavalinkServer({ fixtures: { 'ytsearch:hello': result('SEARCH_RESULT', 'b') } })
+    ]
+    await Promise.all(servers.map(async (server) => await server.listen()))
+    manager = new LavalinkManager({
+      nodeOptions: servers.map((server, i) => Object.assign({}, server.nodeOptions, { identifier: `node-${i}`, tags: [`tag-${i}`] })),
+      searchCache: {}
+    }, new MockWorker() as unknown as Worker)
+    await manager.connectNodes()
+  })
+
+  afterEach(async () => {
+    manager.nodes.forEach((node) => node.destroy('Test finished'))
+    await Promise.all(servers.map(async (server) => await server.close()))
+  })
+
+  it('caches searches separately for each node filter', async () => {
+    const search = async (nodeFilter?: string): Promise<string | undefined> => ((await manager.search('hello', 'requester', undefined, { nodeFilter })).tracks[0] as Track | undefined)?.identifier
+
+    assert.strictEqual(await search('tag-0'), 'a')
+    assert.strictEqual(await search('tag-1'), 'b')
+    assert.strictEqual(await search('tag-0'), 'a')
+    assert.strictEqual(await search('tag-1'), 'b')
+    assert.strictEqual(manager.searchCache?.misses, 2)
+    assert.strictEqual(manager.searchCache?.hits, 2)
+  })
+})
@@ -0,0 +1,140 @@
+import { HTTPError, LavalinkManager, SpotifyResolver, TrackPartial } from '../src'
+
+import assert from 'assert'
+import { EventEmitter } from 'events'
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http'
+import { AddressInfo } from 'net'
+
+/**
+ * A local stand-in for the spotify API, serving responses keyed by path.
+ */
+class SpotifyStandIn {
+  public routes: { [path: string]: { status: number, body: any } } = {}
+  public tokenFailures: number = 0
+  public tokenRequests: number[] = []
+  public readonly server: Server = createServer((req, res) => this._handle(req, res))
+
+  public get port (): number {
+    return (this.server.address() as AddressInfo).port
+  }
+
+  public async listen (): Promise<void> {
+    await new Promise((resolve) => this.server.listen(0, () => resolve(undefined)))
+  }
+
+  public async close (): Promise<void> {
+    await new Promise((resolve) => this.server.close(() => resolve(undefined)))
+  }
+
+  private _handle (req: IncomingMessage, res: ServerResponse): void {
+    const reply = (status: number, body: any): void => void res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body))
+    if (req.method === 'POST' && req.url === '/token') {
+      this.tokenRequests.push(Date.now())
+      if (this.tokenFailures-- > 0) return reply(500, { error: 'server_error' })
+      return reply(200, { access_token: 'token', token_type: 'Bearer', expires_in: 3600 })
+    }
+    if (req.headers.authorization !== 'Bearer token') return reply(401, { error: { status: 401, message: 'No token provided' } })
+    const route = this.routes[req.url ?? '']
+    if (!route) return reply(404, { error: { status: 404, message: 'Resource not found' } })
+    reply(route.status, route.body)
+  }
+}
+
+const spotifyTrack = (id: string, isrc: string): any => ({
+  type: 'track', id, name: `Track ${id}`, duration_ms: 180000, explicit: false, artists: [{ name: 'Artist' }], album: { name: 'Album' }, external_ids: { isrc }
+})
+
+describe('SpotifyResolver', () => {
+  let standIn: SpotifyStandIn
+  let manager: LavalinkManager
+  let resolver: SpotifyResolver
+
+  const start = async (): Promise<void> => {
+    resolver = new SpotifyResolver({
+      clientId: 'id',
+      clientSecret: 'secret',
+      baseUrl: `http://localhost:${standIn.port}/v1`,
+      tokenUrl: `http://localhost:${standIn.port}/token`,
+      backoff: { base: 50, factor: 2, maxDelay: 1000, jitter: 0 }
+    })
+    const authorized = new Promise((resolve) => manager.once('SPOTIFY_AUTHORIZED', resolve))
+    resolver.start(manager)
+    await authorized
+  }
+
+  beforeEach(async () => {
+    standIn = new SpotifyStandIn()
+    await standIn.listen()
+    manager = new EventEmitter() as unknown as LavalinkManager
+  })
+
+  afterEach(async () => {
+    resolver?.destroy()
+    await standIn.close()
+  })
+
+  describe('start()', () => {
+    it('retries failed token requests with the backoff policy', async () => {
+      standIn.tokenFailures = 2
+      const errors: Error[] = []
+      manager.on('SPOTIFY_AUTH_ERROR', (error: Error) => errors.push(error))
+      assert.strictEqual(new SpotifyResolver({ clientId: 'id', clientSecret: 'secret' }).matches('https://open.spotify.com/track/a'), false)
+      await start()
+
+      assert.strictEqual(errors.length, 2)
+      assert.strictEqual(standIn.tokenRequests.length, 3)
+      const [first, second, third] = standIn.tokenRequests
+      assert.ok(second - first >= 45)
+      assert.ok(third - second >= 95)
+      assert.strictEqual(resolver.token, 'Bearer token')
+      assert.ok(resolver.matches('https://open.spotify.com/track/a'))
+    })
+  })
+
+  describe('resolve()', () => {
+    it('follows playlist pages, skipping removed and local tracks', async () => {
+      await start()
+      standIn.routes['/v1/playlists/list'] = {
+        status: 200,
+        body: {
+          name: 'Playlist',
+          tracks: {
+            items: [{ track: spotifyTrack('a', 'ISRC0000001') }, { track: null }, { is_local: true, track: spotifyTrack('local', 'ISRC0000002') }],
+            next: `http://localhost:${standIn.port}/v1/playlists/list/tracks?offset=3`
+          }
+        }
+      }
+      standIn.routes['/v1/playlists/list/tracks?offset=3'] = {
+        status: 200,
+        body: { items: [{ track: spotifyTrack('b', 'ISRC0000003') }, { track: spotifyTrack('c', 'ISRC0000004') }], next: null }
+      }
+
+      const result = await resolver.resolve('https://open.spotify.com/playlist/list', 'requester', {})
+      assert.strictEqual(result?.loadType, 'PLAYLIST_LOADED')
+      assert.strictEqual(result?.playlistInfo?.name, 'Playlist')
+      assert.deepStrictEqual(result?.tracks.map((track) => track.title), ['Track a', 'Track b', 'Track c'])
+      assert.deepStrictEqual(result?.tracks.map((track) => (track as TrackPartial).isrc), ['ISRC0000001', 'ISRC0000003', 'ISRC0000004'])
+
+      const limited = await resolver.resolve('https://open.spotify.com/playlist/list', 'requester', { playlistLimit: 2 })
+      assert.deepStrictEqual(limited?.tracks.map((track) => track.title), ['Track a', 'Track b'])
+    })
+
+    it('resolves tracks into track partials', async () => {
+      await start()
+      standIn.routes['/v1/tracks/a'] = { status: 200, body: spotifyTrack('a', 'ISRC0000001') }
+      const result = await resolver.resolve('spotify:track:a', 'requester', {})
+      assert.strictEqual(result?.loadType, 'TRACK_LOADED')
+      const partial = result?.tracks[0] as TrackPartial
+      assert.ok(partial instanceof TrackPartial)
+      assert.strictEqual(partial.author, 'Artist')
+      assert.strictEqual(partial.length, 180000)
+      assert.strictEqual(partial.album, 'Album')
+    })
+
+    it('throws an HTTP error when an artist can\'t be fetched', async () => {
+      await start()
+      standIn.routes['/v1/artists/missing/top-tracks?market=US'] = { status: 200, body: { tracks: [spotifyTrack('a', 'ISRC0000001')] } }
+      await assert.rejects(resolver.resolve('https://open.spotify.com/artist/missing', 'requester', {}), (error: HTTPError) => error instanceof HTTPError && error.status === 404)
+    })
+  })
+})
@@ -0,0 +1,71 @@
+import { LavalinkManager, MockLavalinkServer, MockWorker, Track, TrackData, TrackMatcher, TrackPartial } from '../src'
+
+import assert from 'assert'
+import { Worker } from 'discord-rose'
+
+const trackData = (identifier: string, title: string, author: string, length: number, isrc?: string): TrackData => ({
+  track: `encoded-${identifier}`,
+  // ISRCs are only reported by v4 servers, in the v4 track info.
+  info: Object.assign({ identifier, author, length, isStream: false, position: 0, title, uri: `https://example.com/${identifier}`, sourceName: 'youtube' }, isrc ? { isrc } : {})
+})
+
+const track = (title: string, author: string, length: number, isrc?: string): Track => new Track(trackData('a', title, author, length, isrc), 'requester')
+
+describe('TrackMatcher', () => {
+  const matcher = new TrackMatcher()
+  const partial = new TrackPartial('Blinding Lights', 'requester', 'The Weeknd', 200000, 'USUG11904206')
+
+  describe('score()', () => {
+    it('adds the ISRC bonus to results with the same ISRC', () => {
+      const score = matcher.score(partial, track('Blinding Lights', 'The Weeknd', 201000, 'USUG11904206'))
+      assert.strictEqual(score.isrc, matcher.options.isrcBonus)
+    })
+
+    it('does not add the ISRC bonus to results with a different ISRC, even if they were found by an ISRC search', () => {
+      const score = matcher.score(partial, track('Some Other Song', 'Random Channel', 200000, 'XX0000000000'), true)
+      assert.strictEqual(score.isrc, 0)
+    })
+
+    it('only adds the ISRC bonus to ISRC search results without a reported ISRC if their titles match', () => {
+      const unrelated = matcher.score(partial, track('City Lights', 'The Weeknd', 200000), true)
+      assert.strictEqual(unrelated.isrc, 0)
+      assert.ok(unrelated.total < matcher.options.acceptScore)
+
+      const related = matcher.score(partial, track('The Weeknd - Blinding Lights (Official Audio)', 'The Weeknd', 201000), true)
+      assert.strictEqual(related.isrc, matcher.options.isrcBonus)
+      assert.ok(related.total >= matcher.options.acceptScore)
+    })
+
+    it('does not add the ISRC bonus to results of a title search without a reported ISRC', () => {
+      assert.strictEqual(matcher.score(partial, track('Blinding Lights', 'The Weeknd', 201000)).isrc, 0)
+    })
+  })
+})
+
+describe('LavalinkManager#resolveTrack()', () => {
+  let server: MockLavalinkServer
+  let manager: LavalinkManager
+
+  afterEach(async () => {
+    manager.nodes.forEach((node) => node.destroy('Test finished'))
+    await server.close()
+  })
+
+  it('searches by title when the ISRC search only finds a different song by the same artist', async () => {
+    server = new MockLavalinkServer({
+      fixtures: {
+        'ytsearch:"USUG11904206"': { loadType: 'SEARCH_RESULT', tracks: [trackData('unrelated', 'City Lights', 'The Weeknd', 200000)] },
+        'ytsearch:Blinding Lights - The Weeknd': { loadType: 'SEARCH_RESULT', tracks: [trackData('related', 'The Weeknd - Blinding Lights (Official Audio)', 'The Weeknd', 201000)] }
+      }
+    })
+    await server.listen()
+    manager = new LavalinkManager({ nodeOptions: [server.nodeOptions] }, new MockWorker() as unknown as Worker)
+    await manager.connectNodes()
+
+    const identifiers: string[] = []
+    server.on('REQUEST', ({ query }) => identifiers.push(query.get('identifier') ?? ''))
+    const resolved = await manager.resolveTrack(new TrackPartial('Blinding Lights', 'requester', 'The Weeknd', 200000, 'USUG11904206'))
+    assert.strictEqual(resolved.identifier, 'related')
+    assert.deepStrictEqual(identifiers, ['ytsearch:"USUG11904206"', 'ytsearch:Blinding Lights - The Weeknd'])
+  })
+})